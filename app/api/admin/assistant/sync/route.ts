@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { syncAssistant } from '@/lib/assistant';
+
+export const runtime = 'nodejs';
+
+/**
+ * Assistant Sync API Endpoint
+ *
+ * Creates or updates the OpenAI assistant so its instructions, model and tools
+ * match the definition in `lib/assistant`. Pass `?dryRun=true` to only see the diff.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const assistantId = process.env.OPENAI_ASSISTANT_ID;
+
+    const result = await syncAssistant(assistantId, dryRun);
+
+    console.log('Assistant sync completed:', {
+      assistantId: result.assistantId,
+      created: result.created,
+      applied: result.applied,
+      changes: result.changes.map((change) =>
+        change.name ? `${change.field}:${change.name} ${change.change}` : `${change.field} ${change.change}`
+      ),
+    });
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error in assistant sync API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { getLLMProvider } from '@/lib/llm';
+import { rebuildConversation } from '@/lib/chat-history';
+import { acquireRunLock, releaseRunLock } from '@/lib/chat-runs';
+
+export const runtime = 'nodejs';
+
+// Rebuilding only creates a thread and seeds one message
+const RESYNC_LOCK_TTL_SECONDS = 60;
+
+/**
+ * Resync Thread API Endpoint
+ *
+ * Replaces a chat's OpenAI thread with a new one seeded from the messages
+ * table, e.g. when the thread drifted from what the user sees. Refuses while
+ * the assistant is answering in the chat.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { chatId } = await params;
+
+    const provider = await getLLMProvider();
+    if (provider.conversationStore !== 'provider') {
+      return NextResponse.json(
+        { success: false, error: `The ${provider.name} provider has no thread to resync` },
+        { status: 400 }
+      );
+    }
+
+    const lockId = await acquireRunLock(chatId, RESYNC_LOCK_TTL_SECONDS);
+    if (!lockId) {
+      return NextResponse.json(
+        { success: false, error: 'The assistant is running in this chat; try again shortly' },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const result = await rebuildConversation(provider, chatId);
+      return NextResponse.json({ success: true, chatId, ...result });
+    } finally {
+      await releaseRunLock(chatId, lockId);
+    }
+  } catch (error) {
+    console.error('Error in resync thread API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
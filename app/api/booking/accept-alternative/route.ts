@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { acceptAlternativeTime } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { AcceptAlternativeRequest } from '@/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Accept Alternative Time API Endpoint
+ *
+ * When a business couldn't do the requested time but offered others, the
+ * booking waits in `awaiting_user`. The chat UI posts the time the user
+ * picked here; the booking moves to that time and the business is called
+ * back (or the call is scheduled) to confirm it.
+ */
+export async function POST(request: NextRequest) {
+  let body: AcceptAlternativeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await acceptAlternativeTime(body);
+
+    console.log('Alternative time accepted:', {
+      bookingId: result.bookingId,
+      callId: result.callId,
+      status: result.status,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
+    console.error('Error in accept alternative API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
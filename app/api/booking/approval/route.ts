@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { respondToCallApproval } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { CallApprovalRequest } from '@/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Call Approval API Endpoint
+ *
+ * Calls the assistant starts wait in `awaiting_approval` behind a card in the
+ * chat (unless the user's call approval setting lets them go ahead). The card
+ * posts the user's answer here: approve places (or schedules) the call, edit
+ * changes the details and keeps waiting, cancel closes it without calling.
+ */
+export async function POST(request: NextRequest) {
+  let body: CallApprovalRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await respondToCallApproval(body);
+
+    console.log('Call approval applied:', {
+      bookingId: body.bookingId,
+      campaignId: body.campaignId,
+      action: body.action,
+      status: result.status,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
+    console.error('Error in call approval API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startBookingCampaign } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { isAdminRequest } from '@/lib/admin';
+import { StartCampaignRequest } from '@/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Booking Campaign API Endpoint
+ *
+ * Tries one booking at several businesses, best first, until one confirms.
+ * The first `parallelism` businesses are called (or scheduled) right away;
+ * the rest are called as earlier calls end without a booking, and the chat
+ * gets one summary when the campaign ends.
+ *
+ * Calls wait for the user's approval in the chat (as their `call_approval`
+ * setting says); only admin callers can send `skipApproval`.
+ *
+ * Requests with an `Idempotency-Key` header (or `idempotencyKey` in the body)
+ * are only run once per user; repeats get the first response back.
+ */
+export async function POST(request: NextRequest) {
+  let body: StartCampaignRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body',
+      },
+      { status: 400 }
+    );
+  }
+
+  // Calls wait for the user's approval unless a trusted (admin) caller says otherwise
+  if (body.skipApproval && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized', details: 'skipApproval requires the admin API key' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await startBookingCampaign(body, {
+      idempotencyKey: request.headers.get('idempotency-key') || body.idempotencyKey,
+      requireApproval: !body.skipApproval,
+    });
+
+    console.log('Booking campaign started:', {
+      campaignId: result.campaignId,
+      calls: result.calls?.length,
+      remaining: result.remaining,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
+    console.error('Error in booking campaign API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
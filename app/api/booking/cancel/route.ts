@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestBookingCancellation } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { isAdminRequest } from '@/lib/admin';
+import { CancelBookingRequest } from '@/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Booking Cancel API Endpoint
+ *
+ * Cancels a booking. One the business has confirmed is cancelled by calling
+ * them back (a follow-up booking linked by `follow_up_of`); the original is
+ * only marked cancelled once they agree. One that hasn't been agreed yet is
+ * cancelled without a call.
+ *
+ * Calls wait for the user's approval in the chat (as their `call_approval`
+ * setting says); only admin callers can send `skipApproval`.
+ *
+ * Requests with an `Idempotency-Key` header (or `idempotencyKey` in the body)
+ * are only run once per user; repeats get the first response back.
+ */
+export async function POST(request: NextRequest) {
+  let body: CancelBookingRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body',
+      },
+      { status: 400 }
+    );
+  }
+
+  // Calls wait for the user's approval unless a trusted (admin) caller says otherwise
+  if (body.skipApproval && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized', details: 'skipApproval requires the admin API key' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await requestBookingCancellation(body, {
+      idempotencyKey: request.headers.get('idempotency-key') || body.idempotencyKey,
+      requireApproval: !body.skipApproval,
+    });
+
+    console.log('Booking cancellation requested:', {
+      bookingId: body.bookingId,
+      followUpBookingId: result.status === 'cancelled' ? undefined : result.bookingId,
+      status: result.status,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
+    console.error('Error in booking cancel API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
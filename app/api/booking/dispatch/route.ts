@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { isCronRequest } from '@/lib/admin';
+import { dispatchBookings } from '@/lib/bookings';
+import { processChatJobs } from '@/lib/chat-worker';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Leave headroom under maxDuration to save follow-ups and release locks
+const RUN_DEADLINE_SECONDS = 55;
+
+/**
+ * Booking Dispatch Endpoint
+ *
+ * Runs on a schedule (see vercel.json) and places the calls for bookings
+ * whose scheduled call or automatic retry is due.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const updatedChats = await dispatchBookings();
+
+    // Follow up on bookings whose retries just ran out
+    if (updatedChats.length > 0) {
+      const deadline = Date.now() + RUN_DEADLINE_SECONDS * 1000;
+      after(async () => {
+        for (const chatId of updatedChats) {
+          try {
+            await processChatJobs(chatId, deadline);
+          } catch (error) {
+            console.error('Error processing booking follow-up:', error);
+          }
+        }
+      });
+    }
+
+    console.log('Booking dispatch finished:', { updatedChats: updatedChats.length });
+    return NextResponse.json({ success: true, updatedChats: updatedChats.length });
+  } catch (error) {
+    console.error('Error in booking dispatch:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestBookingChange } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { isAdminRequest } from '@/lib/admin';
+import { ModifyBookingRequest } from '@/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Booking Modify API Endpoint
+ *
+ * Changes a booking the business has confirmed by calling them back with the
+ * new details (a follow-up booking linked by `follow_up_of`). The original
+ * takes the new details once they agree, and stays as it was if they can't.
+ *
+ * Calls wait for the user's approval in the chat (as their `call_approval`
+ * setting says); only admin callers can send `skipApproval`.
+ *
+ * Requests with an `Idempotency-Key` header (or `idempotencyKey` in the body)
+ * are only run once per user; repeats get the first response back.
+ */
+export async function POST(request: NextRequest) {
+  let body: ModifyBookingRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid JSON body',
+      },
+      { status: 400 }
+    );
+  }
+
+  // Calls wait for the user's approval unless a trusted (admin) caller says otherwise
+  if (body.skipApproval && !isAdminRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized', details: 'skipApproval requires the admin API key' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await requestBookingChange(body, {
+      idempotencyKey: request.headers.get('idempotency-key') || body.idempotencyKey,
+      requireApproval: !body.skipApproval,
+    });
+
+    console.log('Booking change requested:', {
+      bookingId: body.bookingId,
+      followUpBookingId: result.bookingId,
+      status: result.status,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
+    console.error('Error in booking modify API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyCallProgress } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { readWebhookBody } from '@/lib/webhooks';
+import { BookingProgressRequest } from '@/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * Call Progress Webhook
+ *
+ * The MCP server posts intermediate events for a call in progress (ringing,
+ * answered, on hold, speaking with staff, transferred). They update the
+ * booking and its progress message in the chat; the final outcome still
+ * goes to /api/booking/callback.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const progressData = await readWebhookBody<BookingProgressRequest>(request);
+    if (!progressData) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    const { booking, ignored } = await applyCallProgress(progressData);
+
+    console.log('Call progress processed:', {
+      callId: progressData.callId,
+      bookingId: booking.id,
+      event: progressData.event,
+      ignored: !!ignored,
+    });
+
+    return NextResponse.json({ success: true, ignored: !!ignored });
+
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
+    console.error('Error in booking progress API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSupabase } from '@/lib/supabase';
+import { getLLMProvider } from '@/lib/llm';
+import { getActiveRun, clearActiveRun } from '@/lib/chat-runs';
+import { ACTIVE_CALL_STATUSES, cancelBookings, getBusinessName, listBookings } from '@/lib/bookings';
+import { CancelRunRequest } from '@/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * Cancel Run API Endpoint
+ *
+ * Stops the in-flight assistant run for a chat and leaves a marker message.
+ * Booking calls already started by a tool keep going unless their IDs are
+ * passed in `bookingIds`; calls still in progress are returned as `activeBookings`
+ * so the UI can ask the user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: CancelRunRequest = await request.json();
+    const { chatId, userId, bookingIds = [] } = body;
+
+    if (!chatId || !userId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServerSupabase();
+
+    // Verify chat exists and belongs to user
+    const { data: chat, error: chatError } = await supabase
+      .from('chats')
+      .select('id')
+      .eq('id', chatId)
+      .eq('user_id', userId)
+      .single();
+
+    if (chatError || !chat) {
+      console.error('Chat not found or access denied:', { chatId, userId });
+      return NextResponse.json(
+        { success: false, error: 'Chat not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // Cancel the active run, if there still is one
+    const activeRun = await getActiveRun(chatId);
+    if (activeRun) {
+      const provider = await getLLMProvider();
+      try {
+        await provider.cancel(activeRun.conversationId, activeRun.runId);
+        console.log('Cancelled run for chat:', { chatId, runId: activeRun.runId });
+      } catch (error) {
+        // The run may have just finished; there is nothing left to stop
+        console.warn('Error cancelling run:', error);
+      }
+      await clearActiveRun(chatId, activeRun.runId);
+    }
+
+    // Stop booking calls only when the user asked for it
+    const cancelled = await cancelBookings(chatId, bookingIds);
+    const cancelledBookingIds = cancelled.map((booking) => booking.id);
+    const cancelledBusinesses = cancelled.map((booking) => getBusinessName(booking));
+
+    // Leave a marker in the conversation
+    if (activeRun || cancelledBookingIds.length > 0) {
+      let content = activeRun ? '⏹️ Stopped by user.' : '';
+      if (cancelledBusinesses.length > 0) {
+        content += `${content ? ' ' : '⏹️ '}The call to ${cancelledBusinesses.join(', ')} was cancelled.`;
+      }
+
+      const { error: messageError } = await supabase
+        .from('messages')
+        .insert({
+          chat_id: chatId,
+          role: 'system',
+          content,
+          metadata: {
+            cancelled: true,
+            runId: activeRun?.runId,
+            bookingIds: cancelledBookingIds,
+          },
+        });
+
+      if (messageError) {
+        console.error('Error inserting cancel marker message:', messageError);
+        throw messageError;
+      }
+    }
+
+    // Calls still running in this chat, so the user can decide whether to stop them
+    const activeBookings = await listBookings({ chatId, statuses: ACTIVE_CALL_STATUSES });
+
+    return NextResponse.json({
+      success: true,
+      cancelledRunId: activeRun?.runId ?? null,
+      activeBookings: activeBookings.map((booking) => ({
+        id: booking.id,
+        businessName: getBusinessName(booking),
+      })),
+      cancelledBookingIds,
+    });
+
+  } catch (error) {
+    console.error('Error in chat cancel API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
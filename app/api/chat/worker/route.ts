@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/admin';
+import { processDueJobs } from '@/lib/chat-worker';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Leave headroom under maxDuration to save replies and release locks
+const RUN_DEADLINE_SECONDS = 55;
+
+/**
+ * Chat Worker Endpoint
+ *
+ * Runs on a schedule (see vercel.json) to retry failed chat jobs and pick up
+ * messages left queued when a request ran out of time.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const processedChats = await processDueJobs(Date.now() + RUN_DEADLINE_SECONDS * 1000);
+
+    console.log('Chat worker finished:', { processedChats });
+    return NextResponse.json({ success: true, processedChats });
+  } catch (error) {
+    console.error('Error in chat worker:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,18 @@
 import { useEffect, useState, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { Bot } from 'lucide-react';
-import ChatMessage from '@/components/ChatMessage';
+import ChatMessage, { CallApprovalAnswer } from '@/components/ChatMessage';
 import ChatInput from '@/components/ChatInput';
 import TypingIndicator from '@/components/TypingIndicator';
-import { supabase, subscribeToMessages } from '@/lib/supabase';
-import { Message } from '@/types';
+import { supabase, subscribeToMessages, subscribeToChatStream } from '@/lib/supabase';
+import {
+  CallApprovalResponse,
+  CancelRunResponse,
+  ChatStreamEvent,
+  Message,
+  SendMessageResponse,
+  StartBookingResponse,
+} from '@/types';
 
 export default function ChatPage() {
   const searchParams = useSearchParams();
@@ -17,7 +24,13 @@ export default function ChatPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // User messages sent from this tab that haven't been answered yet
+  const pendingRepliesRef = useRef<Set<string>>(new Set());
+  // User message the worker is currently answering
+  const activeMessageIdRef = useRef<string | null>(null);
 
   // Load messages from Supabase
   useEffect(() => {
@@ -44,26 +57,109 @@ export default function ChatPage() {
     loadMessages();
 
     // Subscribe to real-time updates
-    const channel = subscribeToMessages(chatId, (payload) => {
-      const newMessage = payload.new as Message;
-      setMessages((prev) => [...prev, newMessage]);
-      setIsTyping(false);
-    });
+    const channel = subscribeToMessages(
+      chatId,
+      (payload) => {
+        const newMessage = payload.new as Message;
+        addMessage(newMessage);
+
+        // Replies and give-up notices both point at the user message they answer
+        if (newMessage.metadata?.reply_to) {
+          settleReply(newMessage.metadata.reply_to);
+        }
+      },
+      // Booking progress messages are updated in place as the call goes on
+      (payload) => updateMessage(payload.new as Message)
+    );
+
+    // Replies are generated in the background and streamed over a broadcast channel
+    const streamChannel = subscribeToChatStream(chatId, handleStreamEvent);
 
     return () => {
       channel.unsubscribe();
+      streamChannel.unsubscribe();
     };
   }, [chatId]);
 
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingContent]);
+
+  // The streamed reply and the realtime INSERT can both deliver the same row
+  const addMessage = (message: Message) => {
+    setMessages((prev) =>
+      prev.some((existing) => existing.id === message.id) ? prev : [...prev, message]
+    );
+  };
+
+  const updateMessage = (message: Message) => {
+    setMessages((prev) =>
+      prev.map((existing) => (existing.id === message.id ? message : existing))
+    );
+  };
+
+  const finishStreaming = () => {
+    setIsTyping(false);
+    setStreamingContent('');
+    setStreamStatus(null);
+  };
+
+  // A user message has been answered (or given up on)
+  const settleReply = (messageId: string | null) => {
+    if (messageId) {
+      pendingRepliesRef.current.delete(messageId);
+    }
+    if (messageId === activeMessageIdRef.current) {
+      activeMessageIdRef.current = null;
+    }
+
+    if (pendingRepliesRef.current.size === 0) {
+      finishStreaming();
+    } else {
+      setStreamingContent('');
+      setStreamStatus('Queued…');
+    }
+  };
+
+  const handleStreamEvent = (event: ChatStreamEvent) => {
+    switch (event.type) {
+      case 'start':
+        // Also shown when the message was sent from another tab
+        activeMessageIdRef.current = event.messageId;
+        setIsTyping(true);
+        setStreamingContent('');
+        setStreamStatus(null);
+        break;
+
+      case 'delta':
+        setStreamStatus(null);
+        setStreamingContent((prev) => prev + event.text);
+        break;
+
+      case 'status':
+        setStreamStatus(event.status);
+        break;
+
+      case 'done':
+        addMessage(event.message);
+        settleReply(event.message.metadata?.reply_to || activeMessageIdRef.current);
+        break;
+
+      case 'cancelled':
+      case 'error':
+        // Errors are explained by a system message delivered via real-time subscription
+        settleReply(activeMessageIdRef.current);
+        break;
+    }
+  };
 
   const handleSendMessage = async (content: string) => {
     if (!chatId || !userId) return;
 
     setIsTyping(true);
+    setStreamingContent('');
+    setStreamStatus(null);
 
     try {
       const response = await fetch('/api/chat/send', {
@@ -76,15 +172,105 @@ export default function ChatPage() {
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to send message');
+      const result: SendMessageResponse = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to send message');
       }
 
-      // Message will be added via real-time subscription
+      // User message arrives via real-time subscription; the reply streams in once a worker picks it up
+      if (result.message) {
+        pendingRepliesRef.current.add(result.message.id);
+        if (result.position && result.position > 1) {
+          setStreamStatus(`Queued (#${result.position})…`);
+        }
+      }
     } catch (error) {
       console.error('Error sending message:', error);
-      setIsTyping(false);
       alert('Failed to send message. Please try again.');
+      if (pendingRepliesRef.current.size === 0) {
+        finishStreaming();
+      }
+    }
+  };
+
+  const cancelRun = async (bookingIds?: string[]): Promise<CancelRunResponse> => {
+    const response = await fetch('/api/chat/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chatId, userId, bookingIds }),
+    });
+
+    const result: CancelRunResponse = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to stop');
+    }
+    return result;
+  };
+
+  const handleStop = async () => {
+    if (!chatId || !userId) return;
+
+    // Re-enable input right away; the server finishes cancelling in the background
+    pendingRepliesRef.current.clear();
+    activeMessageIdRef.current = null;
+    finishStreaming();
+
+    try {
+      const result = await cancelRun();
+
+      // Calls already placed keep going unless the user says otherwise
+      const activeBookings = result.activeBookings || [];
+      if (activeBookings.length > 0) {
+        const names = activeBookings.map((booking) => booking.businessName).join(', ');
+        if (confirm(`A call to ${names} is still in progress. Cancel the call too?`)) {
+          await cancelRun(activeBookings.map((booking) => booking.id));
+        }
+      }
+    } catch (error) {
+      console.error('Error stopping run:', error);
+      alert('Failed to stop. Please try again.');
+    }
+  };
+
+  // The user picked one of the times a business offered; the option buttons update via real-time
+  const handleSelectAlternative = async (bookingId: string, dateTime: string) => {
+    if (!userId) return;
+
+    try {
+      const response = await fetch('/api/booking/accept-alternative', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bookingId, userId, dateTime }),
+      });
+
+      const result: StartBookingResponse = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to accept the time');
+      }
+    } catch (error) {
+      console.error('Error accepting alternative time:', error);
+      alert(error instanceof Error ? error.message : 'Failed to accept the time. Please try again.');
+    }
+  };
+
+  // The user answered a call approval card; the card updates via real-time
+  const handleCallApproval = async (approval: CallApprovalAnswer) => {
+    if (!userId) return;
+
+    try {
+      const response = await fetch('/api/booking/approval', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...approval, userId }),
+      });
+
+      const result: CallApprovalResponse = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update the call');
+      }
+    } catch (error) {
+      console.error('Error answering call approval:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update the call. Please try again.');
     }
   };
 
@@ -114,7 +300,7 @@ export default function ChatPage() {
           <div className="flex items-center justify-center h-full">
             <div className="text-gray-500">Loading messages...</div>
           </div>
-        ) : messages.length === 0 ? (
+        ) : messages.length === 0 && !isTyping ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center max-w-2xl px-6">
               <div className="mb-6">
@@ -147,16 +333,39 @@ export default function ChatPage() {
         ) : (
           <>
             {messages.map((message) => (
-              <ChatMessage key={message.id} message={message} />
+              <ChatMessage
+                key={message.id}
+                message={message}
+                onSelectAlternative={handleSelectAlternative}
+                onCallApproval={handleCallApproval}
+              />
             ))}
-            {isTyping && <TypingIndicator />}
+            {isTyping && streamingContent && (
+              <ChatMessage
+                message={{
+                  id: 'streaming',
+                  chat_id: chatId,
+                  role: 'assistant',
+                  content: streamingContent,
+                  created_at: new Date().toISOString(),
+                }}
+                status={streamStatus}
+                isStreaming
+              />
+            )}
+            {isTyping && !streamingContent && <TypingIndicator status={streamStatus} />}
             <div ref={messagesEndRef} />
           </>
         )}
       </div>
 
       {/* Input Area */}
-      <ChatInput onSend={handleSendMessage} disabled={isTyping} />
+      <ChatInput
+        onSend={handleSendMessage}
+        onStop={handleStop}
+        disabled={isTyping}
+        isRunning={isTyping}
+      />
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
+import { regionFromLocale } from '@/lib/phone-numbers';
 import { Phone, Calendar, Hotel, Car } from 'lucide-react';
 
 export default function HomePage() {
@@ -24,10 +25,15 @@ export default function HomePage() {
         .single();
 
       if (!existingUser) {
+        // Booking times and phone numbers default to the browser's time zone and locale
+        const { timeZone, locale } = Intl.DateTimeFormat().resolvedOptions();
         await supabase.from('users').insert({
           id: demoUserId,
           email: 'demo@sysist.com',
           name: 'Demo User',
+          time_zone: timeZone,
+          locale,
+          region: regionFromLocale(locale) || null,
         });
       }
 
@@ -1,14 +1,16 @@
 'use client';
 
 import { useState, KeyboardEvent } from 'react';
-import { Send } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
+  onStop?: () => void;
   disabled?: boolean;
+  isRunning?: boolean;
 }
 
-export default function ChatInput({ onSend, disabled }: ChatInputProps) {
+export default function ChatInput({ onSend, onStop, disabled, isRunning }: ChatInputProps) {
   const [message, setMessage] = useState('');
 
   const handleSend = () => {
@@ -47,13 +49,23 @@ export default function ChatInput({ onSend, disabled }: ChatInputProps) {
               target.style.height = target.scrollHeight + 'px';
             }}
           />
-          <button
-            onClick={handleSend}
-            disabled={!message.trim() || disabled}
-            className="absolute right-3 bottom-3 p-2 rounded-lg bg-black text-white disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed hover:bg-gray-800 transition-all"
-          >
-            <Send size={18} />
-          </button>
+          {isRunning && onStop ? (
+            <button
+              onClick={onStop}
+              title="Stop"
+              className="absolute right-3 bottom-3 p-2 rounded-lg bg-black text-white hover:bg-gray-800 transition-all"
+            >
+              <Square size={18} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!message.trim() || disabled}
+              className="absolute right-3 bottom-3 p-2 rounded-lg bg-black text-white disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed hover:bg-gray-800 transition-all"
+            >
+              <Send size={18} />
+            </button>
+          )}
         </div>
         <div className="text-xs text-gray-400 mt-2 text-center">
           Press <kbd className="px-1.5 py-0.5 bg-gray-100 rounded text-gray-600 font-mono">Enter</kbd> to send,
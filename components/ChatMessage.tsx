@@ -1,20 +1,61 @@
-import { Message } from '@/types';
+import { BookingEdits, CallApprovalCard, CallApprovalRequest, CallProgress, Message } from '@/types';
+import { formatBookingTime, getBusinessName } from '@/lib/bookings/details';
+import { CALL_PROGRESS_LABELS, CALL_PROGRESS_STEPS, getCallProgressStep } from '@/lib/bookings/progress';
+import { useState } from 'react';
 import { User, Bot } from 'lucide-react';
 
 interface ChatMessageProps {
   message: Message;
+  status?: string | null;
+  isStreaming?: boolean;
+  /** Called when the user picks one of the times a business offered */
+  onSelectAlternative?: (bookingId: string, dateTime: string) => Promise<void>;
+  /** Called when the user approves, edits or cancels a call waiting for their approval */
+  onCallApproval?: (approval: CallApprovalAnswer) => Promise<void>;
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
+export type CallApprovalAnswer = Pick<CallApprovalRequest, 'bookingId' | 'campaignId' | 'action' | 'changes'>;
+
+export default function ChatMessage({
+  message,
+  status,
+  isStreaming,
+  onSelectAlternative,
+  onCallApproval,
+}: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
 
+  if (isSystem && message.metadata?.callProgress) {
+    return <CallProgressMessage message={message} progress={message.metadata.callProgress} />;
+  }
+
+  if (isSystem && message.metadata?.approval) {
+    return <CallApprovalMessage message={message} card={message.metadata.approval} onRespond={onCallApproval} />;
+  }
+
   if (isSystem) {
+    const { bookingTime, timeZone, alternatives, alternativesFor } = message.metadata || {};
+
     return (
       <div className="flex justify-center py-4 px-4">
         <div className="max-w-3xl w-full">
           <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-sm text-blue-800">
             {message.content}
+            {bookingTime && timeZone && (
+              <div className="mt-2 text-xs text-blue-600">
+                🕒 {formatBookingTime(bookingTime, timeZone, getBrowserLocale())} ({timeZone})
+              </div>
+            )}
+            {alternativesFor && alternatives?.length > 0 && (
+              <AlternativeTimes
+                bookingId={alternativesFor}
+                alternatives={alternatives}
+                timeZone={timeZone}
+                selected={message.metadata?.selectedAlternative}
+                onSelect={onSelectAlternative}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -50,10 +91,338 @@ export default function ChatMessage({ message }: ChatMessageProps) {
           >
             <div className="whitespace-pre-wrap leading-relaxed text-[15px]">
               {message.content}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-500 animate-pulse" />
+              )}
             </div>
+            {status && (
+              <div className="mt-2 text-sm text-gray-500">{status}</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// A booking's call progress, updated in place as the call goes on
+function CallProgressMessage({ message, progress }: { message: Message; progress: CallProgress }) {
+  const isLive = progress.stage !== 'ended';
+  // Calls that ended without getting through (busy, cancelled, ...) don't show as complete
+  const step = isLive || progress.detail === 'completed' ? getCallProgressStep(progress.stage) : -1;
+
+  return (
+    <div className="flex justify-center py-4 px-4">
+      <div className="max-w-3xl w-full">
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-sm text-gray-700">
+          <div className="flex items-center gap-2">
+            {isLive && <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />}
+            <span>{message.content}</span>
+            {(progress.attemptNumber || 1) > 1 && (
+              <span className="text-xs text-gray-500">(call {progress.attemptNumber})</span>
+            )}
+          </div>
+          <div className="mt-3 flex gap-1">
+            {CALL_PROGRESS_STEPS.map((stage, index) => (
+              <div
+                key={stage}
+                title={CALL_PROGRESS_LABELS[stage]}
+                className={`h-1 flex-1 rounded-full ${
+                  index < step || (index === step && !isLive)
+                    ? 'bg-green-500'
+                    : index === step
+                      ? 'bg-green-400 animate-pulse'
+                      : 'bg-gray-200'
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Times a business offered instead, as buttons; only one can be picked
+function AlternativeTimes({
+  bookingId,
+  alternatives,
+  timeZone,
+  selected,
+  onSelect,
+}: {
+  bookingId: string;
+  alternatives: string[];
+  timeZone?: string;
+  selected?: string;
+  onSelect?: (bookingId: string, dateTime: string) => Promise<void>;
+}) {
+  const [pending, setPending] = useState<string | null>(null);
+  const chosen = selected || pending;
+
+  const handleSelect = async (dateTime: string) => {
+    if (!onSelect || chosen) return;
+    setPending(dateTime);
+    try {
+      await onSelect(bookingId, dateTime);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-2">
+      {alternatives.map((dateTime) => (
+        <button
+          key={dateTime}
+          type="button"
+          onClick={() => handleSelect(dateTime)}
+          disabled={!onSelect || !!chosen}
+          className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+            chosen === dateTime
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'bg-white border-blue-300 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:hover:bg-white'
+          }`}
+        >
+          {chosen === dateTime && !selected ? 'Confirming… ' : ''}
+          {formatBookingTime(dateTime, timeZone, getBrowserLocale())}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// What a call will ask for, with Approve / Edit / Cancel while it waits for the user
+function CallApprovalMessage({
+  message,
+  card,
+  onRespond,
+}: {
+  message: Message;
+  card: CallApprovalCard;
+  onRespond?: (approval: CallApprovalAnswer) => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const { details } = card;
+  const isPending = card.status === 'pending';
+  const target =
+    card.kind === 'campaign' ? { campaignId: message.metadata?.campaignId } : { bookingId: message.metadata?.bookingId };
+  const format = (value: string) => formatBookingTime(value, details.timeZone, getBrowserLocale());
+
+  const respond = async (action: CallApprovalAnswer['action'], changes?: BookingEdits) => {
+    if (!onRespond || busy) return;
+    setBusy(true);
+    try {
+      await onRespond({ ...target, action, changes });
+      if (action === 'edit') setEditing(false);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows: Array<[string, string | undefined]> = [
+    card.kind === 'campaign'
+      ? ['Places', card.candidates?.map((candidate) => `${candidate.businessName} (${candidate.phoneNumber})`).join(', then ')]
+      : ['Business', getBusinessName({ details })],
+    ['Phone', card.kind === 'booking' ? details.phoneNumberRaw || details.phoneNumber : undefined],
+    ['Name', details.customerName],
+    details.bookingType === 'hotel'
+      ? ['Stay', `${format(details.checkIn)} – ${format(details.checkOut)}`]
+      : ['Time', details.dateTime ? format(details.dateTime) : undefined],
+    details.bookingType === 'hotel'
+      ? ['Guests', String(details.guests)]
+      : details.bookingType === 'taxi'
+        ? ['Passengers', String(details.passengers)]
+        : ['Party', details.partySize ? String(details.partySize) : undefined],
+    ['Room', details.bookingType === 'hotel' ? details.roomType : undefined],
+    ['Route', details.bookingType === 'taxi' ? `${details.pickup} → ${details.dropoff}` : undefined],
+    ['Bags', details.bookingType === 'taxi' && details.luggage !== undefined ? String(details.luggage) : undefined],
+    ['Requests', details.specialRequests || undefined],
+  ];
+
+  return (
+    <div className="flex justify-center py-4 px-4">
+      <div className="max-w-3xl w-full">
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-900">
+          <div className="font-medium">
+            {isPending
+              ? card.followUp === 'cancel'
+                ? '📝 Approve this call to cancel the booking?'
+                : card.followUp === 'modify'
+                  ? '📝 Approve this call to change the booking?'
+                  : '📝 Approve this call?'
+              : message.content}
           </div>
+          <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+            {rows
+              .filter(([, value]) => value)
+              .map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-amber-700">{label}</dt>
+                  <dd>{value}</dd>
+                </div>
+              ))}
+          </dl>
+          {details.timeZone && <div className="mt-2 text-xs text-amber-700">Times in {details.timeZone}</div>}
+          {isPending && editing && (
+            <CallApprovalEditForm
+              card={card}
+              disabled={busy}
+              onSave={(changes) => respond('edit', changes)}
+              onClose={() => setEditing(false)}
+            />
+          )}
+          {isPending && !editing && (
+            <div className="mt-3 flex gap-2">
+              <button
+                type="button"
+                onClick={() => respond('approve')}
+                disabled={!onRespond || busy}
+                className="px-3 py-1.5 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                {busy ? 'Working…' : 'Approve'}
+              </button>
+              {card.followUp !== 'cancel' && (
+                <button
+                  type="button"
+                  onClick={() => setEditing(true)}
+                  disabled={!onRespond || busy}
+                  className="px-3 py-1.5 rounded-lg border border-amber-300 bg-white hover:bg-amber-100 disabled:opacity-50"
+                >
+                  Edit
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => respond('cancel')}
+                disabled={!onRespond || busy}
+                className="px-3 py-1.5 rounded-lg border border-amber-300 bg-white hover:bg-amber-100 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
+
+// The fields of a pending call the user can correct; only changed ones are sent, and
+// emptying an optional field clears it
+function CallApprovalEditForm({
+  card,
+  disabled,
+  onSave,
+  onClose,
+}: {
+  card: CallApprovalCard;
+  disabled: boolean;
+  onSave: (changes: BookingEdits) => Promise<void>;
+  onClose: () => void;
+}) {
+  const { details } = card;
+  const fields: Array<{
+    name: keyof BookingEdits;
+    label: string;
+    type: 'text' | 'number';
+    value?: string | number;
+    optional?: boolean;
+  }> = [
+    // A change to an existing booking stays with the same business
+    ...(card.kind === 'booking' && !card.followUp
+      ? [{ name: 'phoneNumber' as const, label: 'Phone', type: 'text' as const, value: details.phoneNumberRaw || details.phoneNumber }]
+      : []),
+    { name: 'customerName', label: 'Name', type: 'text', value: details.customerName },
+    ...(details.bookingType === 'hotel'
+      ? [
+          { name: 'checkIn' as const, label: 'Check-in', type: 'text' as const, value: toLocalInput(details.checkIn) },
+          { name: 'checkOut' as const, label: 'Check-out', type: 'text' as const, value: toLocalInput(details.checkOut) },
+          { name: 'guests' as const, label: 'Guests', type: 'number' as const, value: details.guests },
+          { name: 'roomType' as const, label: 'Room', type: 'text' as const, value: details.roomType, optional: true },
+        ]
+      : details.bookingType === 'taxi'
+        ? [
+            { name: 'dateTime' as const, label: 'Pickup time', type: 'text' as const, value: toLocalInput(details.dateTime) },
+            { name: 'pickup' as const, label: 'From', type: 'text' as const, value: details.pickup },
+            { name: 'dropoff' as const, label: 'To', type: 'text' as const, value: details.dropoff },
+            { name: 'passengers' as const, label: 'Passengers', type: 'number' as const, value: details.passengers },
+            { name: 'luggage' as const, label: 'Bags', type: 'number' as const, value: details.luggage, optional: true },
+          ]
+        : [
+            { name: 'dateTime' as const, label: 'Time', type: 'text' as const, value: toLocalInput(details.dateTime) },
+            { name: 'partySize' as const, label: 'Party', type: 'number' as const, value: details.partySize },
+          ]),
+    { name: 'specialRequests', label: 'Requests', type: 'text', value: details.specialRequests, optional: true },
+  ];
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map((field) => [field.name, field.value === undefined ? '' : String(field.value)]))
+  );
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const changes: Record<string, string | number | null> = {};
+    for (const field of fields) {
+      const value = values[field.name].trim();
+      if (value === String(field.value ?? '')) continue;
+      if (value === '') {
+        // Required fields can't be left empty (the input won't submit); optional ones are cleared
+        if (field.optional) changes[field.name] = null;
+        continue;
+      }
+      changes[field.name] = field.type === 'number' ? Number(value) : value;
+    }
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+    await onSave(changes as BookingEdits);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center">
+      {fields.map((field) => (
+        <label key={field.name} className="contents">
+          <span className="text-amber-700">{field.label}</span>
+          <input
+            type={field.type}
+            required={!field.optional}
+            min={field.type === 'number' ? (field.name === 'luggage' ? 0 : 1) : undefined}
+            value={values[field.name]}
+            placeholder={field.name === 'dateTime' || field.name === 'checkIn' ? 'YYYY-MM-DD HH:MM' : undefined}
+            onChange={(event) => setValues({ ...values, [field.name]: event.target.value })}
+            className="px-2 py-1 rounded border border-amber-300 bg-white text-gray-800"
+          />
+        </label>
+      ))}
+      <div className="col-span-2 flex gap-2 mt-1">
+        <button
+          type="submit"
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-lg bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+        >
+          {disabled ? 'Saving…' : 'Save changes'}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-lg border border-amber-300 bg-white hover:bg-amber-100 disabled:opacity-50"
+        >
+          Back
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// A stored booking time as the business's wall-clock time, e.g. '2026-02-15 19:30'
+function toLocalInput(value?: string): string {
+  return value ? value.slice(0, 16).replace('T', ' ') : '';
+}
+
+// The viewer's locale, so booking times read the way they expect
+function getBrowserLocale(): string {
+  return Intl.DateTimeFormat().resolvedOptions().locale;
+}
@@ -1,6 +1,10 @@
 import { Bot } from 'lucide-react';
 
-export default function TypingIndicator() {
+interface TypingIndicatorProps {
+  status?: string | null;
+}
+
+export default function TypingIndicator({ status }: TypingIndicatorProps) {
   return (
     <div className="py-6 px-4">
       <div className="max-w-3xl w-full mx-auto">
@@ -11,12 +15,13 @@ export default function TypingIndicator() {
           </div>
 
           {/* Typing Animation Bubble */}
-          <div className="bg-[#f7f7f8] rounded-2xl px-5 py-3 flex items-center">
+          <div className="bg-[#f7f7f8] rounded-2xl px-5 py-3 flex items-center gap-3">
             <div className="flex space-x-1.5">
               <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
               <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
               <div className="w-2 h-2 bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
             </div>
+            {status && <span className="text-sm text-gray-600">{status}</span>}
           </div>
         </div>
       </div>
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import crypto from 'crypto';
+
+/**
+ * Check the admin API key on a request
+ *
+ * Admin routes expect `Authorization: Bearer <ADMIN_API_KEY>`. If the key is
+ * not configured, every admin request is rejected.
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    console.error('ADMIN_API_KEY not configured');
+    return false;
+  }
+
+  return hasBearerToken(request, adminKey);
+}
+
+/**
+ * Check that a request comes from the scheduler (Vercel Cron) or an admin
+ *
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`.
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && hasBearerToken(request, cronSecret)) {
+    return true;
+  }
+
+  return isAdminRequest(request);
+}
+
+function hasBearerToken(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
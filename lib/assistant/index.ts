@@ -0,0 +1,10 @@
+export {
+  ASSISTANT_INSTRUCTIONS,
+  ASSISTANT_MODEL,
+  ASSISTANT_NAME,
+  ASSISTANT_TEMPERATURE,
+  getAssistantDefinition,
+} from './definition';
+export type { AssistantDefinition } from './definition';
+export { diffAssistant, syncAssistant } from './sync';
+export type { AssistantChange, AssistantSyncResult } from './sync';
@@ -0,0 +1,129 @@
+import { openai } from '@/lib/openai';
+import type { Assistant, AssistantTool } from 'openai/resources/beta/assistants';
+import { AssistantDefinition, getAssistantDefinition } from './definition';
+
+export interface AssistantChange {
+  field: 'name' | 'model' | 'temperature' | 'instructions' | 'tool';
+  /** Tool name, for tool changes */
+  name?: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AssistantSyncResult {
+  assistantId: string | null;
+  created: boolean;
+  applied: boolean;
+  changes: AssistantChange[];
+}
+
+/**
+ * Create or update the OpenAI assistant to match the definition in code
+ *
+ * @param assistantId - Existing assistant to update; a new one is created if omitted
+ * @param dryRun - Only report the diff, don't change anything
+ * @returns What changed (or would change)
+ */
+export async function syncAssistant(
+  assistantId: string | undefined,
+  dryRun: boolean = false
+): Promise<AssistantSyncResult> {
+  const definition = getAssistantDefinition();
+
+  if (!assistantId) {
+    const changes = diffAssistant(null, definition);
+    if (dryRun) {
+      return { assistantId: null, created: false, applied: false, changes };
+    }
+
+    const assistant = await openai.beta.assistants.create(definition);
+    console.log('Created assistant:', assistant.id);
+    return { assistantId: assistant.id, created: true, applied: true, changes };
+  }
+
+  const current = await openai.beta.assistants.retrieve(assistantId);
+  const changes = diffAssistant(current, definition);
+
+  if (dryRun || changes.length === 0) {
+    return { assistantId, created: false, applied: false, changes };
+  }
+
+  await openai.beta.assistants.update(assistantId, definition);
+  console.log(`Updated assistant ${assistantId}: ${changes.length} change(s)`);
+  return { assistantId, created: false, applied: true, changes };
+}
+
+/**
+ * Compare a live assistant with the definition in code
+ */
+export function diffAssistant(
+  current: Assistant | null,
+  definition: AssistantDefinition
+): AssistantChange[] {
+  const changes: AssistantChange[] = [];
+
+  const fields = ['name', 'model', 'temperature', 'instructions'] as const;
+  for (const field of fields) {
+    const before = current ? current[field] ?? null : null;
+    const after = definition[field];
+    if (before !== after) {
+      changes.push({
+        field,
+        change: before === null ? 'added' : 'changed',
+        before: before ?? undefined,
+        after,
+      });
+    }
+  }
+
+  const currentTools = new Map(
+    (current?.tools || []).map((tool) => [toolKey(tool), tool] as const)
+  );
+  const expectedTools = new Map(
+    definition.tools.map((tool) => [toolKey(tool), tool] as const)
+  );
+
+  expectedTools.forEach((tool, name) => {
+    const existing = currentTools.get(name);
+    if (!existing) {
+      changes.push({ field: 'tool', name, change: 'added', after: tool });
+    } else if (stableStringify(toolSpec(existing)) !== stableStringify(toolSpec(tool))) {
+      changes.push({ field: 'tool', name, change: 'changed', before: existing, after: tool });
+    }
+  });
+
+  currentTools.forEach((tool, name) => {
+    if (!expectedTools.has(name)) {
+      changes.push({ field: 'tool', name, change: 'removed', before: tool });
+    }
+  });
+
+  return changes;
+}
+
+function toolKey(tool: AssistantTool): string {
+  return tool.type === 'function' ? tool.function.name : tool.type;
+}
+
+// The parts of a tool we define; the API fills in defaults such as `strict`
+function toolSpec(tool: AssistantTool): unknown {
+  if (tool.type !== 'function') return tool;
+  const { name, description, parameters } = tool.function;
+  return { name, description, parameters };
+}
+
+// JSON with sorted keys, so schemas compare equal regardless of key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,672 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { enqueueChatJob } from '@/lib/chat-jobs';
+import {
+  describeBookingDetails,
+  formatBookingTime,
+  getBookingDateTime,
+  getBusinessName,
+} from '@/lib/bookings/details';
+import { getBookedDetails, isFollowUpAgreed } from '@/lib/bookings/follow-ups';
+import { describeCallProgress } from '@/lib/bookings/progress';
+import { getUserPreferences } from '@/lib/users';
+import {
+  Booking,
+  BookingCallbackRequest,
+  BookingCampaign,
+  CallApprovalCard,
+  CallProgress,
+  CampaignCandidate,
+  ChatJob,
+  Message,
+} from '@/types';
+
+// Enough of the end of a call for the assistant to see how it went
+const MAX_TRANSCRIPT_CHARS = 1500;
+
+// How a booking call (or series of retried calls) ended
+export type CallOutcome = Omit<BookingCallbackRequest, 'callId'>;
+
+/**
+ * Post a booking outcome to the chat and queue an assistant follow-up
+ *
+ * Adds a system message for the user (with the assistant's note in its
+ * metadata) and enqueues a chat job so the assistant replies with next steps.
+ * The caller is responsible for kicking off `processChatJobs`.
+ *
+ * @param booking - The booking the outcome is for
+ * @param outcome - How the call ended
+ * @param callId - The call that produced the outcome, if any
+ * @returns The queued follow-up job
+ */
+export async function postBookingUpdate(
+  booking: Booking,
+  outcome: CallOutcome,
+  callId?: string
+): Promise<ChatJob> {
+  const supabase = getServerSupabase();
+  const preferences = await getUserPreferences(booking.user_id);
+
+  // Insert system message; the note is what the assistant sees instead of the text
+  const { data: systemMessage, error: messageError } = await supabase
+    .from('messages')
+    .insert({
+      chat_id: booking.chat_id,
+      role: 'system',
+      content: buildBookingUpdateMessage(booking, outcome, preferences?.locale || undefined),
+      metadata: {
+        callId,
+        bookingId: booking.id,
+        status: outcome.status,
+        bookingTime: booking.result?.bookedDateTime || getBookingDateTime(booking.details),
+        timeZone: booking.details.timeZone,
+        assistant_note: buildBookingUpdateNote(booking, outcome),
+        // Shown as options the user can pick from
+        ...(hasOfferedAlternatives(booking)
+          ? { alternativesFor: booking.id, alternatives: booking.result!.alternativeTimes }
+          : {}),
+      },
+    })
+    .select()
+    .single();
+
+  if (messageError) {
+    console.error('Error inserting message:', messageError);
+    throw messageError;
+  }
+
+  // Have the assistant follow up on the outcome in the chat's thread
+  return enqueueChatJob(booking.chat_id, booking.user_id, systemMessage.id);
+}
+
+/**
+ * Post how a booking campaign went to the chat and queue an assistant follow-up
+ *
+ * One message covers every business the campaign tried, instead of an
+ * update per call.
+ *
+ * @param campaign - The campaign, once it has ended
+ * @param bookings - The bookings made for it, one per business called
+ * @returns The queued follow-up job
+ */
+export async function postCampaignSummary(campaign: BookingCampaign, bookings: Booking[]): Promise<ChatJob> {
+  const supabase = getServerSupabase();
+  const preferences = await getUserPreferences(campaign.user_id);
+  const confirmed = bookings.find((booking) => booking.id === campaign.booking_id);
+
+  const { data: systemMessage, error: messageError } = await supabase
+    .from('messages')
+    .insert({
+      chat_id: campaign.chat_id,
+      role: 'system',
+      content: buildCampaignSummaryMessage(campaign, bookings, preferences?.locale || undefined),
+      metadata: {
+        campaignId: campaign.id,
+        bookingId: confirmed?.id,
+        status: campaign.status,
+        bookingTime: confirmed
+          ? confirmed.result?.bookedDateTime || getBookingDateTime(confirmed.details)
+          : undefined,
+        timeZone: confirmed?.details.timeZone,
+        assistant_note: buildCampaignSummaryNote(campaign, bookings),
+      },
+    })
+    .select()
+    .single();
+
+  if (messageError) {
+    console.error('Error inserting message:', messageError);
+    throw messageError;
+  }
+
+  return enqueueChatJob(campaign.chat_id, campaign.user_id, systemMessage.id);
+}
+
+/**
+ * The chat message summarising a campaign: the outcome, then one line per business
+ *
+ * @param campaign - The ended campaign
+ * @param bookings - The bookings made for it
+ * @param locale - The user's locale for dates and times
+ */
+export function buildCampaignSummaryMessage(
+  campaign: BookingCampaign,
+  bookings: Booking[],
+  locale?: string
+): string {
+  const confirmed = bookings.find((booking) => booking.id === campaign.booking_id);
+  const headline = confirmed
+    ? buildCompletedCallMessage(confirmed, getBusinessName(confirmed), locale)
+    : '❌ None of the places I tried could take the booking.';
+
+  const lines = campaign.candidates.map((candidate, rank) => {
+    const booking = bookings.find((campaignBooking) => campaignBooking.campaign_rank === rank);
+    return `${rank + 1}. ${candidate.businessName}: ${describeCampaignOutcome(booking, candidate, locale)}`;
+  });
+
+  const offered = bookings.some(
+    (booking) => booking.status === 'awaiting_user' && booking.result?.alternativeTimes?.length
+  );
+  return [
+    headline,
+    '',
+    'Places tried:',
+    ...lines,
+    ...(offered ? ['', 'Tell me if one of the other times offered works for you.'] : []),
+  ].join('\n');
+}
+
+/**
+ * How a campaign went for one business, in a few words
+ */
+function describeCampaignOutcome(booking: Booking | undefined, candidate: CampaignCandidate, locale?: string): string {
+  if (!booking) {
+    return 'not called';
+  }
+
+  const result = booking.result || {};
+  const format = (value: string) => formatBookingTime(value, booking.details.timeZone, locale);
+
+  switch (booking.status) {
+    case 'completed':
+      return result.confirmed === true || !result.analysis
+        ? '✅ booked' + (result.confirmationNumber ? ` (confirmation ${result.confirmationNumber})` : '')
+        : "❓ the call finished, but it isn't clear whether it's booked";
+    case 'awaiting_user':
+      return result.alternativeTimes?.length
+        ? `🕒 offered ${result.alternativeTimes.map(format).join('; ')}`
+        : "📵 couldn't get through";
+    case 'calling':
+      return "📞 still on the call; you'll get an update when it ends";
+    case 'cancelled':
+      if (result.alternativeTimes?.length) {
+        return `offered ${result.alternativeTimes.map(format).join('; ')} (no longer needed)`;
+      }
+      return (booking.attempt_count || 0) > 0 ? 'call cancelled' : 'not called';
+    case 'failed':
+      return `❌ ${result.reason || "couldn't take the booking"}`;
+    default:
+      return booking.status.replace(/_/g, ' ');
+  }
+}
+
+/**
+ * The assistant's view of a campaign's outcome, with each booking's ID
+ *
+ * @param campaign - The ended campaign
+ * @param bookings - The bookings made for it
+ */
+export function buildCampaignSummaryNote(campaign: BookingCampaign, bookings: Booking[]): string {
+  const confirmed = bookings.find((booking) => booking.id === campaign.booking_id);
+  const sample = confirmed || bookings[0];
+
+  const lines = [
+    '[Booking update: automated message from the calling system, not written by the user]',
+    `Booking campaign ${campaign.id} (${campaign.booking_type}) ended: ` +
+      (confirmed
+        ? `booked at ${getBusinessName(confirmed)} (booking ${confirmed.id}).`
+        : `none of the ${campaign.candidates.length} businesses could take the booking.`),
+  ];
+  if (sample) {
+    lines.push(
+      `Requested: ${describeBookingDetails(sample.details)}` +
+        (sample.details.customerName ? `, under ${sample.details.customerName}` : '') +
+        (sample.details.timeZone ? ` (times in ${sample.details.timeZone})` : '') +
+        '.'
+    );
+  }
+
+  lines.push('Businesses, in the order tried:');
+  campaign.candidates.forEach((candidate, rank) => {
+    const booking = bookings.find((campaignBooking) => campaignBooking.campaign_rank === rank);
+    if (!booking) {
+      lines.push(`- ${candidate.businessName}: not called.`);
+      return;
+    }
+
+    const facts = booking.result || {};
+    const parts = [`booking ${booking.id}`, `status ${booking.status}`];
+    if (facts.confirmed !== undefined) {
+      parts.push(`confirmed ${facts.confirmed === null ? 'unclear' : facts.confirmed ? 'yes' : 'no'}`);
+    }
+    if (facts.bookedDateTime) parts.push(`booked for ${facts.bookedDateTime}`);
+    if (facts.confirmationNumber) parts.push(`confirmation number ${facts.confirmationNumber}`);
+    if (facts.alternativeTimes?.length) parts.push(`alternative times offered: ${facts.alternativeTimes.join(', ')}`);
+    if (facts.reason) parts.push(`reason: ${facts.reason}`);
+    lines.push(`- ${candidate.businessName}: ${parts.join('; ')}.`);
+  });
+
+  if (bookings.some((booking) => booking.status === 'calling')) {
+    lines.push('Calls still in progress were left to finish; each reports back separately.');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Show a call's progress on the booking's progress message
+ *
+ * Each booking has one progress message in its chat, created when the first
+ * call is placed and updated in place (clients pick up the change through
+ * realtime), so progress events don't add a message each. Failures are
+ * logged and otherwise ignored; the final outcome is posted separately.
+ *
+ * @param booking - The booking the call is for
+ * @param progress - Where the call has got to
+ */
+export async function showCallProgress(
+  booking: Pick<Booking, 'id' | 'chat_id' | 'details'>,
+  progress: CallProgress
+): Promise<void> {
+  const supabase = getServerSupabase();
+  const content = `📞 ${getBusinessName(booking)}: ${describeCallProgress(progress)}`;
+  const metadata = { bookingId: booking.id, progressFor: booking.id, callProgress: progress };
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('chat_id', booking.chat_id)
+    .eq('metadata->>progressFor', booking.id)
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  if (fetchError) {
+    console.error('Error fetching call progress message:', fetchError);
+    return;
+  }
+
+  const { error } = existing && existing.length > 0
+    ? await supabase.from('messages').update({ content, metadata }).eq('id', existing[0].id)
+    : await supabase.from('messages').insert({ chat_id: booking.chat_id, role: 'system', content, metadata });
+
+  if (error) {
+    console.error('Error saving call progress message:', error);
+  }
+}
+
+/**
+ * Show (or update) the card asking the user to approve a call
+ *
+ * Like the progress message, each booking or campaign has one approval card,
+ * updated in place as the user edits, approves or cancels. Failures are
+ * logged and otherwise ignored.
+ *
+ * @param owner - The booking or campaign's chat and user
+ * @param approvalFor - The booking or campaign ID
+ * @param card - What the card shows
+ */
+export async function showCallApproval(
+  { chat_id: chatId, user_id: userId }: Pick<Booking, 'chat_id' | 'user_id'>,
+  approvalFor: string,
+  card: CallApprovalCard
+): Promise<void> {
+  const supabase = getServerSupabase();
+  const preferences = await getUserPreferences(userId);
+  const content = buildCallApprovalMessage(card, preferences?.locale || undefined);
+  const metadata = {
+    approvalFor,
+    ...(card.kind === 'campaign' ? { campaignId: approvalFor } : { bookingId: approvalFor }),
+    approval: card,
+  };
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('chat_id', chatId)
+    .eq('metadata->>approvalFor', approvalFor)
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  if (fetchError) {
+    console.error('Error fetching call approval message:', fetchError);
+    return;
+  }
+
+  const { error } = existing && existing.length > 0
+    ? await supabase.from('messages').update({ content, metadata }).eq('id', existing[0].id)
+    : await supabase.from('messages').insert({ chat_id: chatId, role: 'system', content, metadata });
+
+  if (error) {
+    console.error('Error saving call approval message:', error);
+  }
+}
+
+/**
+ * The text of a call approval card
+ *
+ * @param card - What the card shows
+ * @param locale - The user's locale for dates and times
+ */
+export function buildCallApprovalMessage(card: CallApprovalCard, locale?: string): string {
+  const { details, candidates } = card;
+  const callee =
+    card.kind === 'campaign' && candidates?.length
+      ? candidates.map((candidate) => `${candidate.businessName} (${candidate.phoneNumber})`).join(', then ')
+      : `${getBusinessName({ details })} (${details.phoneNumberRaw || details.phoneNumber})`;
+
+  switch (card.status) {
+    case 'approved':
+      return `✅ Approved: ${callee} will be called.`;
+    case 'cancelled':
+      return `🚫 Cancelled: ${callee} won't be called.`;
+    default:
+      return (
+        `📝 Ready to call ${callee} to ${
+          card.followUp === 'cancel' ? 'cancel the booking for' : card.followUp === 'modify' ? 'change the booking to' : 'book'
+        } ${describeBookingDetails(details, locale)}` +
+        (details.customerName ? `, under ${details.customerName}` : '') +
+        (details.specialRequests ? ` (${details.specialRequests})` : '') +
+        `. Approve the ${card.kind === 'campaign' ? 'calls' : 'call'}, edit the details, or cancel.`
+      );
+  }
+}
+
+/**
+ * The chat message telling the user how a booking call went
+ *
+ * @param booking - The booking the outcome is for
+ * @param outcome - How the call ended
+ * @param locale - The user's locale for dates and times
+ */
+export function buildBookingUpdateMessage(
+  booking: Booking,
+  outcome: CallOutcome,
+  locale?: string
+): string {
+  const { status, reason } = outcome;
+  const businessName = getBusinessName(booking);
+  const attempts = booking.attempt_count || 1;
+  let messageContent = '';
+
+  if (hasOfferedAlternatives(booking)) {
+    return buildAlternativesMessage(booking, businessName, locale);
+  }
+
+  if (booking.follow_up_action) {
+    return buildFollowUpMessage(booking, outcome, businessName, locale);
+  }
+
+  switch (status) {
+    case 'completed':
+      messageContent = buildCompletedCallMessage(booking, businessName, locale);
+      break;
+
+    case 'failed':
+      messageContent = `❌ We couldn't complete your booking at ${businessName}.`;
+      if (reason) {
+        messageContent += ` Reason: ${reason}.`;
+      }
+      messageContent += ' Would you like me to try again or try a different time?';
+      break;
+
+    case 'busy':
+      messageContent =
+        attempts > 1
+          ? `📵 We called ${businessName} ${attempts} times, but the line was busy every time. Would you like me to try again later?`
+          : `📵 The line was busy when we tried to call ${businessName}. Would you like me to retry?`;
+      break;
+
+    case 'no-answer':
+      messageContent =
+        attempts > 1
+          ? `📵 We called ${businessName} ${attempts} times, but nobody answered. They might be closed. Would you like to try again later?`
+          : `📵 There was no answer when we called ${businessName}. They might be closed or very busy. Would you like to try again later?`;
+      break;
+
+    case 'voicemail':
+      messageContent =
+        attempts > 1
+          ? `📼 We called ${businessName} ${attempts} times, but it went to voicemail every time. Would you like me to try again later?`
+          : `📼 The call to ${businessName} went to voicemail. Would you like me to try again later?`;
+      break;
+
+    default:
+      messageContent = `ℹ️ The call to ${businessName} ended with status: ${status}.`;
+  }
+
+  return messageContent;
+}
+
+/**
+ * The message for a call that got through, based on what the business actually agreed to
+ */
+function buildCompletedCallMessage(booking: Booking, businessName: string, locale?: string): string {
+  const { details } = booking;
+  const result = booking.result || {};
+  const format = (value: string) => formatBookingTime(value, details.timeZone, locale);
+
+  if (result.confirmed === false) {
+    const lines = [`❌ ${businessName} couldn't take the booking.`];
+    if (result.summary) {
+      lines[0] += ` ${result.summary}`;
+    }
+    return lines.join('\n');
+  }
+
+  if (result.confirmed !== true) {
+    return (
+      `ℹ️ The call to ${businessName} finished, but it isn't clear whether the booking was confirmed.` +
+      (result.summary ? ` ${result.summary}` : '') +
+      ' Would you like me to call again to check?'
+    );
+  }
+
+  // The business may have booked a different time from the one asked for
+  const requestedTime = getBookingDateTime(details);
+  const timeChanged =
+    !!result.bookedDateTime && !!requestedTime && !isSameTime(result.bookedDateTime, requestedTime);
+  const booked: Booking = timeChanged
+    ? {
+        ...booking,
+        details:
+          details.bookingType === 'hotel'
+            ? { ...details, checkIn: result.bookedDateTime! }
+            : { ...details, dateTime: result.bookedDateTime! },
+      }
+    : booking;
+
+  const lines = [buildConfirmationMessage(booked, businessName, locale)];
+  if (timeChanged) {
+    lines.push(`⚠️ That's not the time you asked for (${format(requestedTime!)}).`);
+  }
+  if (result.bookedUnderName) {
+    lines.push(`Name: ${result.bookedUnderName}`);
+  }
+  if (result.confirmationNumber) {
+    lines.push(`Confirmation number: ${result.confirmationNumber}`);
+  }
+  if (result.deposit) {
+    lines.push(`Deposit: ${result.deposit}`);
+  }
+  if (result.cancellationPolicy) {
+    lines.push(`Cancellation policy: ${result.cancellationPolicy}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The message for a call to cancel or change a booking, saying whether the booking changed
+ */
+function buildFollowUpMessage(booking: Booking, outcome: CallOutcome, businessName: string, locale?: string): string {
+  const result = booking.result || {};
+  const cancelling = booking.follow_up_action === 'cancel';
+  const summary = result.summary ? ` ${result.summary}` : '';
+
+  if (isFollowUpAgreed(booking)) {
+    const booked = describeBookingDetails(getBookedDetails(booking), locale);
+    if (cancelling) {
+      return `✅ Your booking at ${businessName} (${booked}) is CANCELLED.${summary}`;
+    }
+    const lines = [`✅ Your booking at ${businessName} is CHANGED: it's now for ${booked}.`];
+    if (result.confirmationNumber) {
+      lines.push(`Confirmation number: ${result.confirmationNumber}`);
+    }
+    return lines.join('\n');
+  }
+
+  const verb = cancelling ? 'cancel' : 'change';
+  if (outcome.status === 'completed') {
+    return result.confirmed === false
+      ? `❌ ${businessName} couldn't ${verb} your booking.${summary} Your booking is unchanged.`
+      : `ℹ️ The call to ${businessName} finished, but it isn't clear whether they ${cancelling ? 'cancelled' : 'changed'} your booking.${summary} Would you like me to call again to check?`;
+  }
+
+  const why =
+    outcome.status === 'busy'
+      ? 'the line was busy'
+      : outcome.status === 'no-answer'
+        ? 'nobody answered'
+        : outcome.status === 'voicemail'
+          ? 'it went to voicemail'
+          : outcome.reason || 'the call failed';
+  return `📵 We couldn't reach ${businessName} to ${verb} your booking (${why}). Your booking is unchanged. Would you like me to try again later?`;
+}
+
+/**
+ * Whether the booking is waiting for the user to pick one of the times the business offered
+ */
+function hasOfferedAlternatives(booking: Booking): boolean {
+  return booking.status === 'awaiting_user' && !!booking.result?.alternativeTimes?.length;
+}
+
+/**
+ * The message for a call where the business offered other times instead
+ */
+function buildAlternativesMessage(booking: Booking, businessName: string, locale?: string): string {
+  const { details } = booking;
+  const result = booking.result || {};
+  const format = (value: string) => formatBookingTime(value, details.timeZone, locale);
+  const requestedTime = getBookingDateTime(details);
+
+  const lines = [
+    `🕒 ${businessName} can't do ${requestedTime ? format(requestedTime) : 'the time you asked for'}, but they offered other times.` +
+      (result.summary ? ` ${result.summary}` : ''),
+    `They offered: ${(result.alternativeTimes || []).map(format).join('; ')}.`,
+    "Pick one and I'll call back to confirm it, or tell me if none of them work.",
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * The confirmation line for a booking, worded for what was booked
+ */
+function buildConfirmationMessage(booking: Booking, businessName: string, locale?: string): string {
+  const { details } = booking;
+  const summary = describeBookingDetails(details, locale);
+  switch (details.bookingType) {
+    case 'hotel':
+      return `✅ Great news! Your stay at ${businessName} is CONFIRMED: ${summary}.`;
+    case 'taxi':
+      return `✅ Great news! Your taxi with ${businessName} is CONFIRMED for ${summary}.`;
+    default:
+      return `✅ Great news! Your reservation at ${businessName} is CONFIRMED for ${summary}.`;
+  }
+}
+
+// Times compared to the minute; '2025-01-15T19:00:00+00:00' and '2025-01-15 19:00' match
+function isSameTime(a: string, b: string): boolean {
+  const minute = (value: string) => value.replace('T', ' ').slice(0, 16);
+  return minute(a) === minute(b);
+}
+
+/**
+ * Describe a finished booking call for the assistant
+ *
+ * The note is stored on the chat's system message (`metadata.assistant_note`)
+ * and added to the conversation in place of the user-facing text, so the
+ * assistant can follow up in its own voice.
+ *
+ * @param booking - The booking the call was for
+ * @param outcome - The call outcome reported by the MCP server
+ * @returns The note to add to the conversation
+ */
+export function buildBookingUpdateNote(booking: Booking, outcome: CallOutcome): string {
+  const { status, reason, transcript, duration, result } = outcome;
+  const { details } = booking;
+  const businessName = getBusinessName(booking);
+
+  const lines = [
+    '[Booking update: automated message from the calling system, not written by the user]',
+    `Call to ${businessName} for booking ${booking.id} ended with status: ${status}.` +
+      (booking.status !== 'completed' && (status === 'completed' || booking.status === 'awaiting_user')
+        ? ` Booking status: ${booking.status}.`
+        : ''),
+    `Requested: ${booking.booking_type}, ${describeBookingDetails(details)}` +
+      (details.customerName ? `, under ${details.customerName}` : '') +
+      (details.timeZone ? ` (times in ${details.timeZone})` : '') +
+      '.',
+  ];
+
+  if (booking.campaign_id) {
+    lines.push(`Part of booking campaign ${booking.campaign_id}, which tried several businesses.`);
+  }
+  if (booking.follow_up_of) {
+    const cancelling = booking.follow_up_action === 'cancel';
+    lines.push(
+      `This call was to ${cancelling ? 'cancel' : 'change'} booking ${booking.follow_up_of}, which is ` +
+        (isFollowUpAgreed(booking)
+          ? cancelling
+            ? 'now cancelled.'
+            : 'now changed to what was booked on this call.'
+          : 'unchanged.')
+    );
+  }
+  if ((booking.attempt_count || 1) > 1) {
+    lines.push(`Calls made: ${booking.attempt_count}.`);
+  }
+  if (reason) {
+    lines.push(`Reason: ${reason}.`);
+  }
+  const facts = booking.result || {};
+  if (facts.analysis) {
+    lines.push(
+      `Booking confirmed: ${facts.confirmed === null || facts.confirmed === undefined ? 'unclear' : facts.confirmed ? 'yes' : 'no'}` +
+        (facts.analysis.source === 'transcript' ? ' (from the call transcript).' : ' (as reported by the calling system).')
+    );
+  }
+  if (facts.bookedDateTime) {
+    lines.push(`Booked for: ${facts.bookedDateTime}.`);
+  }
+  if (facts.bookedUnderName) {
+    lines.push(`Booked under: ${facts.bookedUnderName}.`);
+  }
+  if (facts.confirmationNumber) {
+    lines.push(`Confirmation number: ${facts.confirmationNumber}.`);
+  }
+  if (facts.alternativeTimes?.length) {
+    lines.push(`Alternative times offered: ${facts.alternativeTimes.join(', ')}.`);
+  }
+  if (facts.deposit) {
+    lines.push(`Deposit: ${facts.deposit}.`);
+  }
+  if (facts.cancellationPolicy) {
+    lines.push(`Cancellation policy: ${facts.cancellationPolicy}.`);
+  }
+  if (facts.summary) {
+    lines.push(`Summary: ${facts.summary}`);
+  }
+  if (result?.confirmation) {
+    lines.push(`Confirmation: ${result.confirmation}`);
+  }
+  if (duration) {
+    lines.push(`Call duration: ${duration} seconds.`);
+  }
+  if (transcript) {
+    const excerpt =
+      transcript.length > MAX_TRANSCRIPT_CHARS
+        ? `…${transcript.slice(-MAX_TRANSCRIPT_CHARS)}`
+        : transcript;
+    lines.push(`Transcript:\n${excerpt}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Text to add to the assistant conversation for a stored message
+ *
+ * Booking updates carry a note written for the assistant; everything else is
+ * used as-is.
+ */
+export function getConversationContent(message: Pick<Message, 'content' | 'metadata'>): string {
+  return message.metadata?.assistant_note || message.content;
+}
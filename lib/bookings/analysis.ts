@@ -0,0 +1,155 @@
+import { openai } from '@/lib/openai';
+import { parseDateTimeInZone, toZonedISOString } from '@/lib/time-zones';
+import { describeBookingDetails, getBusinessName } from './details';
+import { Booking, BookingCallbackRequest, BookingOutcomeFacts, BookingResult } from '@/types';
+
+// Small and cheap is enough for reading one transcript; override with CALL_ANALYSIS_MODEL
+const DEFAULT_ANALYSIS_MODEL = 'gpt-4o-mini';
+
+// Leave the callback time to post the update within its 60s limit
+const ANALYSIS_TIMEOUT_MS = 20000;
+
+// Long calls are mostly hold music and small talk; the booking is settled near the end
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const ANALYSIS_INSTRUCTIONS = `You read transcripts of phone calls an assistant made to book something for a customer, and report what the business actually agreed to.
+
+Reply with a JSON object with exactly these fields:
+- "confirmed": true if the business accepted the booking, false if they declined or couldn't do it, null if the transcript doesn't make it clear
+- "confirmationNumber": reference or confirmation number given, or null
+- "bookedDateTime": the date and time actually booked as "YYYY-MM-DD HH:MM" (hotels: the check-in date as "YYYY-MM-DD"), or null if nothing was booked
+- "bookedUnderName": the name the booking is under, or null
+- "alternativeTimes": other dates/times the business offered, as "YYYY-MM-DD HH:MM", or []
+- "deposit": any deposit or prepayment required, in a few words, or null
+- "cancellationPolicy": the cancellation policy mentioned, in a few words, or null
+- "summary": one or two sentences on how the call went, for the customer
+
+If the call was to cancel or change an existing booking, "confirmed" is whether the business agreed to the cancellation or change, and "bookedDateTime" is when the booking is for after the call (null if it was cancelled).
+
+Only report what was said on the call. Times are local to the business.`;
+
+/**
+ * Work out what a finished call actually achieved
+ *
+ * With a transcript (and an OpenAI key), a model extracts the facts: whether
+ * the booking was confirmed, the time and name it's under, alternatives
+ * offered, deposit and cancellation policy. Otherwise, or if that fails, the
+ * MCP server's status is taken at its word (`completed` means confirmed).
+ *
+ * @param booking - The booking the call was for
+ * @param outcome - The call outcome reported by the MCP server
+ * @returns The facts, with where they came from, to merge into the booking result
+ */
+export async function analyzeCallOutcome(
+  booking: Booking,
+  outcome: Omit<BookingCallbackRequest, 'callId'>
+): Promise<BookingResult> {
+  const analyzedAt = new Date().toISOString();
+  const fromCallback = (error?: string): BookingResult => ({
+    ...factsFromCallback(outcome),
+    analysis: { source: 'callback', analyzedAt, error },
+  });
+
+  if (!outcome.transcript?.trim() || !process.env.OPENAI_API_KEY) {
+    return fromCallback();
+  }
+
+  const model = process.env.CALL_ANALYSIS_MODEL || DEFAULT_ANALYSIS_MODEL;
+  try {
+    const completion = await openai.chat.completions.create(
+      {
+        model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: ANALYSIS_INSTRUCTIONS },
+          { role: 'user', content: buildAnalysisPrompt(booking, outcome) },
+        ],
+      },
+      { timeout: ANALYSIS_TIMEOUT_MS }
+    );
+
+    const raw = JSON.parse(completion.choices[0]?.message?.content || '{}');
+    const facts = sanitizeFacts(raw, booking);
+
+    console.log('Call transcript analysed:', {
+      bookingId: booking.id,
+      confirmed: facts.confirmed,
+      alternatives: facts.alternativeTimes?.length || 0,
+    });
+
+    return { ...facts, analysis: { source: 'transcript', model, analyzedAt } };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error analysing call transcript:', { bookingId: booking.id, reason });
+    return fromCallback(reason);
+  }
+}
+
+function buildAnalysisPrompt(
+  booking: Booking,
+  outcome: Omit<BookingCallbackRequest, 'callId'>
+): string {
+  const { details } = booking;
+  const transcript = outcome.transcript || '';
+  const excerpt =
+    transcript.length > MAX_TRANSCRIPT_CHARS ? `…${transcript.slice(-MAX_TRANSCRIPT_CHARS)}` : transcript;
+
+  return [
+    `Business: ${getBusinessName(booking)} (${booking.booking_type})`,
+    `Requested: ${describeBookingDetails(details)}, under ${details.customerName}` +
+      (details.timeZone ? ` (times in ${details.timeZone})` : ''),
+    `Requested time as data: ${details.bookingType === 'hotel' ? details.checkIn : details.dateTime}`,
+    ...(booking.call_context ? [`Purpose of the call: ${booking.call_context.note}`] : []),
+    `Call status reported by the phone system: ${outcome.status}`,
+    '',
+    'Transcript:',
+    excerpt,
+  ].join('\n');
+}
+
+/**
+ * Facts from the MCP server's own result, for calls without a usable transcript
+ */
+function factsFromCallback(outcome: Omit<BookingCallbackRequest, 'callId'>): BookingOutcomeFacts {
+  const result = outcome.result || {};
+  return {
+    confirmed: typeof result.confirmed === 'boolean' ? result.confirmed : outcome.status === 'completed',
+    confirmationNumber: asText(result.confirmationNumber),
+    bookedUnderName: asText(result.bookedUnderName),
+  };
+}
+
+/**
+ * Keep only well-formed fields from the model's reply, with times pinned to the booking's zone
+ */
+function sanitizeFacts(raw: Record<string, any>, booking: Booking): BookingOutcomeFacts {
+  const timeZone = booking.details.timeZone;
+  const toBookingTime = (value: unknown): string | undefined => {
+    const text = asText(value);
+    if (!text) return undefined;
+    if (DATE_ONLY_PATTERN.test(text)) return text;
+    const parsed = timeZone ? parseDateTimeInZone(text, timeZone) : null;
+    return parsed && timeZone ? toZonedISOString(parsed, timeZone) : text;
+  };
+
+  return {
+    confirmed: typeof raw.confirmed === 'boolean' ? raw.confirmed : null,
+    confirmationNumber: asText(raw.confirmationNumber),
+    bookedDateTime: toBookingTime(raw.bookedDateTime),
+    bookedUnderName: asText(raw.bookedUnderName),
+    alternativeTimes: Array.isArray(raw.alternativeTimes)
+      ? raw.alternativeTimes.map(toBookingTime).filter((time): time is string => !!time)
+      : [],
+    deposit: asText(raw.deposit),
+    cancellationPolicy: asText(raw.cancellationPolicy),
+    summary: asText(raw.summary),
+  };
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
@@ -0,0 +1,84 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { BookingEdits, CallApprovalSetting } from '@/types';
+
+// Fields the user can change on the approval card; the business and booking type stay as they are
+export const EDITABLE_BOOKING_FIELDS: readonly (keyof BookingEdits)[] = [
+  'phoneNumber',
+  'customerName',
+  'dateTime',
+  'checkIn',
+  'checkOut',
+  'partySize',
+  'guests',
+  'roomType',
+  'passengers',
+  'pickup',
+  'dropoff',
+  'luggage',
+  'specialRequests',
+];
+
+// Optional fields; the user clears one by sending null (or an empty value)
+const CLEARABLE_BOOKING_FIELDS: readonly (keyof BookingEdits)[] = ['roomType', 'luggage', 'specialRequests'];
+
+/**
+ * Whether a call can go ahead without asking, under the user's call approval setting
+ *
+ * `auto` approves every call; `known_businesses` approves calls to numbers the
+ * user already has a completed booking with; `ask` (the default) approves none.
+ *
+ * @param userId - The user the call is for
+ * @param setting - Their `call_approval` setting
+ * @param phoneNumbers - The E.164 numbers that would be called
+ */
+export async function isCallPreApproved(
+  userId: string,
+  setting: CallApprovalSetting | null | undefined,
+  phoneNumbers: string[]
+): Promise<boolean> {
+  if (setting === 'auto') {
+    return true;
+  }
+  if (setting !== 'known_businesses' || phoneNumbers.length === 0) {
+    return false;
+  }
+
+  const supabase = getServerSupabase();
+  const { data: known, error } = await supabase
+    .from('bookings')
+    .select('phoneNumber:details->>phoneNumber')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .in('details->>phoneNumber', phoneNumbers);
+
+  if (error) {
+    // Asking is the safe side
+    console.error('Error checking known businesses:', error);
+    return false;
+  }
+
+  const knownNumbers = new Set((known || []).map((row: { phoneNumber: string }) => row.phoneNumber));
+  return phoneNumbers.every((phoneNumber) => knownNumbers.has(phoneNumber));
+}
+
+/**
+ * Only the fields the user may change
+ *
+ * Empty values are dropped, except for optional fields, where they clear the
+ * field (as null).
+ */
+export function pickBookingEdits(changes: Record<string, unknown> | undefined): BookingEdits {
+  const edits: Record<string, unknown> = {};
+  for (const field of EDITABLE_BOOKING_FIELDS) {
+    const value = changes?.[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && value !== '') {
+      edits[field] = value;
+    } else if (CLEARABLE_BOOKING_FIELDS.includes(field)) {
+      edits[field] = null;
+    }
+  }
+  return edits as BookingEdits;
+}
@@ -0,0 +1,90 @@
+import { getZonedDateTime, isValidTimeZone, zonedDateTimeToUtc } from '@/lib/time-zones';
+import { BookingType, CallWindow } from '@/types';
+
+// Local hours we're willing to call businesses of each type; taxis take calls around the clock
+export const DEFAULT_CALL_HOURS: Record<BookingType, Pick<CallWindow, 'notBefore' | 'notAfter'> | null> = {
+  restaurant: { notBefore: '10:00', notAfter: '22:00' },
+  hotel: { notBefore: '08:00', notAfter: '22:00' },
+  taxi: null,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Check a call window supplied by a caller
+ *
+ * @returns An error message, or null if the window is valid
+ */
+export function validateCallWindow(window: Partial<CallWindow>): string | null {
+  if (!window.timeZone || !isValidTimeZone(window.timeZone)) {
+    return 'timeZone must be an IANA time zone (e.g. Europe/London)';
+  }
+  if (window.notBefore && !TIME_PATTERN.test(window.notBefore)) {
+    return 'notBefore must be a time in HH:MM format';
+  }
+  if (window.notAfter && !TIME_PATTERN.test(window.notAfter)) {
+    return 'notAfter must be a time in HH:MM format';
+  }
+  return null;
+}
+
+/**
+ * The call window for a new booking: the type's default hours in the
+ * business's time zone, with any overrides
+ *
+ * @param bookingType - The kind of business being called
+ * @param overrides - Time zone and/or hours from the request
+ * @returns The window, or null if the business's time zone isn't known
+ */
+export function resolveCallWindow(
+  bookingType: BookingType,
+  overrides: Partial<CallWindow> = {}
+): CallWindow | null {
+  const timeZone = overrides.timeZone || process.env.DEFAULT_BUSINESS_TIME_ZONE;
+  if (!timeZone) {
+    return null;
+  }
+
+  const defaults = DEFAULT_CALL_HOURS[bookingType];
+  return {
+    timeZone,
+    notBefore: overrides.notBefore || defaults?.notBefore,
+    notAfter: overrides.notAfter || defaults?.notAfter,
+  };
+}
+
+/**
+ * The earliest time at or after `after` that falls inside the call window
+ *
+ * Windows may wrap past midnight (e.g. 18:00–02:00).
+ *
+ * @param window - The booking's call window; null means any time
+ * @param after - Earliest acceptable time
+ */
+export function getNextCallTime(window: CallWindow | null | undefined, after: Date): Date {
+  if (!window?.timeZone || (!window.notBefore && !window.notAfter)) {
+    return after;
+  }
+
+  const opens = toMinutes(window.notBefore) ?? 0;
+  const closes = toMinutes(window.notAfter) ?? 24 * 60;
+  const local = getZonedDateTime(after, window.timeZone);
+  const now = local.hour * 60 + local.minute;
+
+  const inside = opens <= closes ? now >= opens && now < closes : now >= opens || now < closes;
+  if (inside) {
+    return after;
+  }
+
+  // Outside the window: wait for it to open, today if it hasn't yet, otherwise tomorrow
+  const day = now < opens ? local.day : local.day + 1;
+  return zonedDateTimeToUtc(
+    { ...local, day, hour: Math.floor(opens / 60), minute: opens % 60 },
+    window.timeZone
+  );
+}
+
+function toMinutes(time?: string): number | null {
+  const match = time ? TIME_PATTERN.exec(time) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
@@ -0,0 +1,115 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { callMCPTool } from '@/lib/mcp';
+import { showCallProgress } from '@/lib/booking-updates';
+import { transitionBooking } from './lifecycle';
+import { toBookingCallArguments } from './details';
+import { Booking, BookingAttempt, BookingResult, CallProgress } from '@/types';
+
+/**
+ * Place a call for a booking through the MCP server
+ *
+ * Every call is recorded in `booking_attempts` with its own call ID, and the
+ * booking moves to `calling` with `call_id` pointing at the latest attempt.
+ *
+ * @param booking - The booking to call for (initiated, retry_scheduled, ...)
+ * @param cause - Why the call is placed, recorded with the status change
+ * @returns The new call ID and attempt number
+ */
+export async function placeBookingCall(
+  booking: Booking,
+  cause: string
+): Promise<{ callId: string; attemptNumber: number }> {
+  const attemptNumber = (booking.attempt_count || 0) + 1;
+
+  const mcpResult = await callMCPTool('start_booking_call', toBookingCallArguments(booking));
+
+  // Extract callId from response
+  const callId = mcpResult.callId;
+  if (!callId) {
+    console.error('No callId in MCP server response:', mcpResult);
+    throw new Error('MCP server did not return a callId');
+  }
+
+  console.log('Call initiated successfully:', { bookingId: booking.id, callId, attemptNumber });
+
+  const supabase = getServerSupabase();
+  const { error: attemptError } = await supabase.from('booking_attempts').insert({
+    booking_id: booking.id,
+    attempt_number: attemptNumber,
+    call_id: callId,
+    status: 'calling',
+  });
+
+  if (attemptError) {
+    console.error('Error recording booking attempt:', attemptError);
+  }
+
+  // Update booking with callId and status 'calling'
+  const progress: CallProgress = { stage: 'dialing', attemptNumber, updatedAt: new Date().toISOString() };
+  try {
+    await transitionBooking(booking.id, 'calling', {
+      cause,
+      details: { callId, attemptNumber },
+      changes: { call_id: callId, attempt_count: attemptNumber, next_attempt_at: null, progress },
+    });
+  } catch (error) {
+    // Don't throw here - the call was placed; the callback finds it through booking_attempts
+    console.error('Error updating booking with callId:', error);
+  }
+
+  await showCallProgress(booking, progress);
+
+  return { callId, attemptNumber };
+}
+
+/**
+ * Find the booking and attempt a call ID belongs to
+ *
+ * Bookings created before attempts were tracked only have `bookings.call_id`.
+ */
+export async function findBookingByCallId(
+  callId: string
+): Promise<{ booking: Booking; attempt: BookingAttempt | null } | null> {
+  const supabase = getServerSupabase();
+  const { data: attempt } = await supabase
+    .from('booking_attempts')
+    .select('*')
+    .eq('call_id', callId)
+    .maybeSingle();
+
+  let query = supabase.from('bookings').select('*');
+  query = attempt ? query.eq('id', attempt.booking_id) : query.eq('call_id', callId);
+
+  const { data: booking, error } = await query.maybeSingle();
+  if (error) {
+    console.error('Error finding booking for callId:', error);
+    throw error;
+  }
+
+  return booking ? { booking: booking as Booking, attempt: (attempt as BookingAttempt) || null } : null;
+}
+
+/**
+ * Save how a call attempt ended
+ */
+export async function recordAttemptOutcome(
+  attempt: BookingAttempt,
+  status: BookingAttempt['status'],
+  reason: string | undefined,
+  result: BookingResult
+): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase
+    .from('booking_attempts')
+    .update({
+      status,
+      reason: reason || null,
+      result,
+      ended_at: new Date().toISOString(),
+    })
+    .eq('id', attempt.id);
+
+  if (error) {
+    console.error('Error recording attempt outcome:', error);
+  }
+}
@@ -0,0 +1,191 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { Booking, BookingCampaign, BookingCampaignStatus, BookingStatus } from '@/types';
+
+// Most businesses one campaign can try
+export const MAX_CAMPAIGN_CANDIDATES = 10;
+
+// Most businesses called at the same time
+export const MAX_CAMPAIGN_PARALLELISM = 3;
+
+// A campaign booking in one of these still has a call coming or going on
+export const OPEN_CAMPAIGN_STATUSES: readonly BookingStatus[] = [
+  'initiated',
+  'scheduled',
+  'calling',
+  'busy',
+  'no_answer',
+  'voicemail',
+  'retry_scheduled',
+];
+
+/**
+ * Create a campaign
+ *
+ * @param campaign - Columns of the new campaign
+ * @param status - `running`, or `awaiting_approval` when the user has to approve the calls first
+ * @returns The created campaign
+ */
+export async function createCampaign(
+  campaign: Pick<BookingCampaign, 'user_id' | 'chat_id' | 'booking_type' | 'request' | 'candidates' | 'parallelism'>,
+  status: 'running' | 'awaiting_approval' = 'running'
+): Promise<BookingCampaign> {
+  const supabase = getServerSupabase();
+  const { data: created, error } = await supabase
+    .from('booking_campaigns')
+    .insert({ ...campaign, status, next_candidate: 0 })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating booking campaign:', error);
+    throw new Error(`Failed to create booking campaign: ${error.message}`);
+  }
+
+  return created as BookingCampaign;
+}
+
+/**
+ * Get a campaign by ID
+ */
+export async function getCampaign(campaignId: string): Promise<BookingCampaign | null> {
+  const supabase = getServerSupabase();
+  const { data: campaign, error } = await supabase
+    .from('booking_campaigns')
+    .select('*')
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching booking campaign:', error);
+    throw error;
+  }
+
+  return (campaign as BookingCampaign) || null;
+}
+
+/**
+ * The bookings made for a campaign so far, in the order of its candidates
+ */
+export async function listCampaignBookings(campaignId: string): Promise<Booking[]> {
+  const supabase = getServerSupabase();
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('campaign_rank', { ascending: true });
+
+  if (error) {
+    console.error('Error listing campaign bookings:', error);
+    throw error;
+  }
+
+  return (bookings || []) as Booking[];
+}
+
+/**
+ * Take the next candidate to call
+ *
+ * Claimed by moving `next_candidate` on from the value that was read, so two
+ * callbacks finishing at once don't call the same business twice.
+ *
+ * @param campaign - The campaign as last read
+ * @returns The candidate's index, or null if none are left (or the campaign has ended)
+ */
+export async function claimNextCandidate(campaign: BookingCampaign): Promise<number | null> {
+  const supabase = getServerSupabase();
+  let current = campaign;
+
+  while (current.status === 'running' && current.next_candidate < current.candidates.length) {
+    const index = current.next_candidate;
+    const { data: claimed, error } = await supabase
+      .from('booking_campaigns')
+      .update({ next_candidate: index + 1 })
+      .eq('id', current.id)
+      .eq('status', 'running')
+      .eq('next_candidate', index)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error claiming campaign candidate:', error);
+      throw error;
+    }
+    if (claimed) {
+      return index;
+    }
+
+    // Someone else took it: look again
+    const latest = await getCampaign(current.id);
+    if (!latest) {
+      return null;
+    }
+    current = latest;
+  }
+
+  return null;
+}
+
+/**
+ * End a running campaign
+ *
+ * Only one caller gets to end it, so the outcome is reported once.
+ *
+ * @param campaignId - The campaign
+ * @param status - How it ended
+ * @param bookingId - The confirmed booking, for `confirmed`
+ * @returns The ended campaign, or null if it had already ended
+ */
+export async function finishCampaign(
+  campaignId: string,
+  status: Exclude<BookingCampaignStatus, 'running' | 'awaiting_approval'>,
+  bookingId?: string
+): Promise<BookingCampaign | null> {
+  const supabase = getServerSupabase();
+  const { data: finished, error } = await supabase
+    .from('booking_campaigns')
+    .update({ status, booking_id: bookingId ?? null })
+    .eq('id', campaignId)
+    .eq('status', 'running')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error finishing booking campaign:', error);
+    throw error;
+  }
+
+  if (finished) {
+    console.log('Booking campaign finished:', { campaignId, status, bookingId });
+  }
+  return (finished as BookingCampaign) || null;
+}
+
+/**
+ * Change a campaign that is still waiting for the user's approval
+ *
+ * Conditioned on the status, so approving, editing and cancelling can't overlap.
+ *
+ * @param campaignId - The campaign
+ * @param changes - The new request, or the status it moves to once approved or cancelled
+ * @returns The updated campaign, or null if it was no longer waiting
+ */
+export async function updatePendingCampaign(
+  campaignId: string,
+  changes: Partial<Pick<BookingCampaign, 'request' | 'status'>>
+): Promise<BookingCampaign | null> {
+  const supabase = getServerSupabase();
+  const { data: updated, error } = await supabase
+    .from('booking_campaigns')
+    .update(changes)
+    .eq('id', campaignId)
+    .eq('status', 'awaiting_approval')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating pending booking campaign:', error);
+    throw error;
+  }
+
+  return (updated as BookingCampaign) || null;
+}
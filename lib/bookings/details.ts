@@ -0,0 +1,380 @@
+import { formatInTimeZone, getZonedDateTime, parseDateTimeInZone, toZonedISOString } from '@/lib/time-zones';
+import { Booking, BookingDetails, BookingType, MCPToolCallRequest } from '@/types';
+
+export const BOOKING_TYPES: readonly BookingType[] = ['restaurant', 'hotel', 'taxi'];
+
+// Required fields beyond the common ones, per booking type
+const REQUIRED_FIELDS: Record<BookingType, readonly string[]> = {
+  restaurant: ['dateTime', 'partySize'],
+  hotel: ['checkIn', 'checkOut', 'guests'],
+  taxi: ['dateTime', 'pickup', 'dropoff', 'passengers'],
+};
+
+// Fields that must be strings when given; request bodies are untyped JSON
+const STRING_FIELDS = [
+  'businessName',
+  'restaurantName',
+  'phoneNumber',
+  'customerName',
+  'specialRequests',
+  'dateTime',
+  'checkIn',
+  'checkOut',
+  'roomType',
+  'pickup',
+  'dropoff',
+] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Arrival time assumed for a check-in date without one
+const END_OF_DAY = '23:59';
+
+// Bookings further ahead than this are almost certainly a misread date
+const MAX_DAYS_AHEAD = 365;
+
+// Longest hotel stay we'll book
+const MAX_STAY_NIGHTS = 60;
+
+// "Right now" bookings (e.g. a taxi) are a little in the past by the time they're checked
+const PAST_GRACE_MINUTES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BookingDetailsValidation =
+  | { valid: true; details: BookingDetails }
+  | { valid: false; error: string; message: string };
+
+/**
+ * Check the booking fields of a request and build the details to store
+ *
+ * `restaurantName` is accepted in place of `businessName` for older callers.
+ *
+ * @param input - The request body
+ * @returns The details for the booking type, or what's wrong with the request
+ */
+export function validateBookingDetails(input: Record<string, any>): BookingDetailsValidation {
+  const bookingType = input.bookingType as BookingType;
+  if (!BOOKING_TYPES.includes(bookingType)) {
+    return invalid('Invalid booking type', `bookingType must be one of: ${BOOKING_TYPES.join(', ')}`);
+  }
+
+  const notString = STRING_FIELDS.filter(
+    (field) => input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string'
+  );
+  if (notString.length > 0) {
+    const noun = notString.length === 1 ? 'a string' : 'strings';
+    return invalid('Invalid field type', `${notString.join(', ')} must be ${noun}`);
+  }
+
+  const businessName = input.businessName || input.restaurantName;
+  const required = ['phoneNumber', 'customerName', ...REQUIRED_FIELDS[bookingType]];
+  const missing = required.filter((field) => input[field] === undefined || input[field] === '');
+  if (!businessName) {
+    missing.unshift('businessName');
+  }
+  if (missing.length > 0) {
+    return invalid('Missing required fields', `${missing.join(', ')} required for a ${bookingType} booking`);
+  }
+
+  const common = {
+    businessName,
+    phoneNumber: input.phoneNumber,
+    customerName: input.customerName,
+    specialRequests: input.specialRequests || '',
+  };
+
+  switch (bookingType) {
+    case 'restaurant':
+      if (!isCount(input.partySize, 100)) {
+        return invalid('Invalid party size', 'Party size must be a number between 1 and 100');
+      }
+      return {
+        valid: true,
+        details: {
+          ...common,
+          bookingType,
+          restaurantName: businessName,
+          dateTime: input.dateTime,
+          partySize: input.partySize,
+        },
+      };
+
+    case 'hotel':
+      if (!DATE_PATTERN.test(input.checkIn) || !DATE_PATTERN.test(input.checkOut)) {
+        return invalid('Invalid stay dates', 'checkIn and checkOut must be dates in YYYY-MM-DD format');
+      }
+      if (input.checkOut.slice(0, 10) <= input.checkIn.slice(0, 10)) {
+        return invalid('Invalid stay dates', 'checkOut must be after checkIn');
+      }
+      if (!isCount(input.guests, 20)) {
+        return invalid('Invalid number of guests', 'Guests must be a number between 1 and 20');
+      }
+      return {
+        valid: true,
+        details: {
+          ...common,
+          bookingType,
+          checkIn: input.checkIn,
+          checkOut: input.checkOut,
+          guests: input.guests,
+          roomType: input.roomType || undefined,
+        },
+      };
+
+    case 'taxi':
+      if (!isCount(input.passengers, 16)) {
+        return invalid('Invalid number of passengers', 'Passengers must be a number between 1 and 16');
+      }
+      if (
+        input.luggage !== undefined &&
+        input.luggage !== null &&
+        !(Number.isInteger(input.luggage) && input.luggage >= 0)
+      ) {
+        return invalid('Invalid luggage', 'Luggage must be a number of bags (0 or more)');
+      }
+      return {
+        valid: true,
+        details: {
+          ...common,
+          bookingType,
+          dateTime: input.dateTime,
+          pickup: input.pickup,
+          dropoff: input.dropoff,
+          passengers: input.passengers,
+          luggage: input.luggage ?? undefined,
+        },
+      };
+  }
+}
+
+/**
+ * Pin a booking's times to a time zone and check they're plausible
+ *
+ * Times without an offset are read in `timeZone` and stored as ISO 8601 with
+ * the offset; hotel dates without a time stay plain dates. Impossible dates
+ * and times, times in the past or more than a year ahead are rejected.
+ *
+ * @param details - Validated details from `validateBookingDetails`
+ * @param timeZone - IANA time zone of the business (or the user)
+ * @param now - Current time
+ * @returns The details with normalised times, or what's wrong with them
+ */
+export function normalizeBookingDateTimes(
+  details: BookingDetails,
+  timeZone: string,
+  now: Date = new Date()
+): BookingDetailsValidation {
+  const latest = now.getTime() + MAX_DAYS_AHEAD * DAY_MS;
+
+  if (details.bookingType === 'hotel') {
+    const today = toDateString(getZonedDateTime(now, timeZone));
+    const checkIn = normalizeStayDate(details.checkIn, timeZone);
+    const checkOut = normalizeStayDate(details.checkOut, timeZone);
+    if (!checkIn || !checkOut) {
+      return invalid('Invalid stay dates', 'checkIn and checkOut must be YYYY-MM-DD or YYYY-MM-DD HH:MM');
+    }
+
+    const checkInDate = checkIn.slice(0, 10);
+    const nights = (Date.parse(checkOut.slice(0, 10)) - Date.parse(checkInDate)) / DAY_MS;
+    if (!(nights > 0)) {
+      return invalid('Invalid stay dates', 'checkOut must be after checkIn');
+    }
+
+    if (checkInDate < today) {
+      return invalid('Booking time is in the past', `checkIn ${checkInDate} is before today (${today}, ${timeZone})`);
+    }
+    if (Date.parse(checkInDate) > latest) {
+      return invalid('Booking time is too far ahead', `checkIn must be within ${MAX_DAYS_AHEAD} days`);
+    }
+    if (!(nights <= MAX_STAY_NIGHTS)) {
+      return invalid('Invalid stay dates', `Stays can be at most ${MAX_STAY_NIGHTS} nights`);
+    }
+
+    return { valid: true, details: { ...details, checkIn, checkOut, timeZone } };
+  }
+
+  const parsed = parseDateTimeInZone(details.dateTime, timeZone);
+  if (!parsed || DATE_ONLY_PATTERN.test(details.dateTime.trim())) {
+    return invalid('Invalid date/time', 'dateTime must be YYYY-MM-DD HH:MM or ISO 8601 with a time');
+  }
+  if (parsed.getTime() < now.getTime() - PAST_GRACE_MINUTES * 60 * 1000) {
+    return invalid(
+      'Booking time is in the past',
+      `${formatInTimeZone(parsed, timeZone)} (${timeZone}) has already passed`
+    );
+  }
+  if (parsed.getTime() > latest) {
+    return invalid('Booking time is too far ahead', `dateTime must be within ${MAX_DAYS_AHEAD} days`);
+  }
+
+  return { valid: true, details: { ...details, dateTime: toZonedISOString(parsed, timeZone), timeZone } };
+}
+
+/**
+ * A booking time for people to read, in the booking's time zone
+ *
+ * Bookings made before times were normalised have no time zone; their times
+ * are shown as entered.
+ *
+ * @param value - A dateTime, checkIn or checkOut value from the details
+ * @param timeZone - The booking's time zone
+ * @param locale - BCP 47 locale, e.g. from the user's profile
+ */
+export function formatBookingTime(value: string, timeZone?: string, locale?: string): string {
+  if (!timeZone) {
+    return value;
+  }
+
+  if (DATE_ONLY_PATTERN.test(value)) {
+    return new Date(`${value}T00:00:00Z`).toLocaleDateString(locale || 'en-US', {
+      timeZone: 'UTC',
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+
+  const parsed = parseDateTimeInZone(value, timeZone);
+  return parsed ? formatInTimeZone(parsed, timeZone, locale) : value;
+}
+
+/**
+ * The business being called for a booking
+ */
+export function getBusinessName(booking: Pick<Booking, 'details'>): string {
+  const details = booking.details as Partial<BookingDetails> & { restaurantName?: string };
+  return details?.businessName || details?.restaurantName || 'the business';
+}
+
+/**
+ * When the booking starts: the reservation, check-in or pickup time
+ */
+export function getBookingDateTime(details: BookingDetails): string | undefined {
+  return details.bookingType === 'hotel' ? details.checkIn : details.dateTime;
+}
+
+/**
+ * The latest the business can still be called about a booking: when it starts
+ *
+ * A check-in date without an arrival time counts as the end of that day, since
+ * guests can arrive any time; deadlines and retry cut-offs go by this.
+ *
+ * @param details - The booking's details
+ * @param timeZone - Zone for times without an offset (defaults to the booking's)
+ * @returns The instant, or null if the booking has no time
+ */
+export function getBookingDeadline(details: BookingDetails, timeZone = details.timeZone): Date | null {
+  const value = getBookingDateTime(details)?.trim();
+  if (!value) {
+    return null;
+  }
+  return parseDateTimeInZone(DATE_ONLY_PATTERN.test(value) ? `${value} ${END_OF_DAY}` : value, timeZone);
+}
+
+/**
+ * One-line summary of what was requested, e.g. 'Wed, Jan 15, 7:00 PM, party of 4'
+ *
+ * @param details - The booking's details
+ * @param locale - BCP 47 locale for dates and times (defaults to en-US)
+ */
+export function describeBookingDetails(details: BookingDetails, locale?: string): string {
+  const format = (value: string) => formatBookingTime(value, details.timeZone, locale);
+
+  switch (details.bookingType) {
+    case 'hotel':
+      return (
+        `check-in ${format(details.checkIn)}, check-out ${format(details.checkOut)}, ${plural(details.guests, 'guest')}` +
+        (details.roomType ? `, ${details.roomType} room` : '')
+      );
+
+    case 'taxi':
+      return (
+        `${format(details.dateTime)}, from ${details.pickup} to ${details.dropoff}, ${plural(details.passengers, 'passenger')}` +
+        (details.luggage ? `, ${plural(details.luggage, 'bag')}` : '')
+      );
+
+    default:
+      return (
+        `${details.dateTime ? format(details.dateTime) : 'unknown time'}` +
+        (details.partySize ? `, party of ${details.partySize}` : '')
+      );
+  }
+}
+
+/**
+ * Arguments for the MCP server's start_booking_call tool
+ *
+ * `dateTime` and `partySize` are always set (check-in and guests for hotels,
+ * pickup time and passengers for taxis) for servers that only read those.
+ * `purpose` and `context` come from the booking's call context, if any.
+ */
+export function toBookingCallArguments(booking: Booking): MCPToolCallRequest['params']['arguments'] {
+  const { details } = booking;
+  const common = {
+    phoneNumber: details.phoneNumber,
+    bookingType: booking.booking_type,
+    customerName: details.customerName,
+    businessName: getBusinessName(booking),
+    specialRequests: details.specialRequests || '',
+    timeZone: details.timeZone,
+    language: 'en',
+    purpose: booking.call_context?.purpose,
+    context: booking.call_context?.note,
+  };
+
+  switch (details.bookingType) {
+    case 'hotel':
+      return {
+        ...common,
+        dateTime: details.checkIn,
+        partySize: details.guests,
+        checkIn: details.checkIn,
+        checkOut: details.checkOut,
+        roomType: details.roomType,
+      };
+
+    case 'taxi':
+      return {
+        ...common,
+        dateTime: details.dateTime,
+        partySize: details.passengers,
+        pickup: details.pickup,
+        dropoff: details.dropoff,
+        luggage: details.luggage,
+      };
+
+    default:
+      return { ...common, dateTime: details.dateTime, partySize: details.partySize };
+  }
+}
+
+function isCount(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+/**
+ * A check-in or check-out as stored: a plain date stays a date, a date with a
+ * time is pinned to the time zone. Null if it isn't a real date (and time).
+ */
+function normalizeStayDate(value: string, timeZone: string): string | null {
+  const trimmed = value.trim();
+  const parsed = parseDateTimeInZone(trimmed, timeZone);
+  if (!parsed) {
+    return null;
+  }
+  return DATE_ONLY_PATTERN.test(trimmed) ? trimmed : toZonedISOString(parsed, timeZone);
+}
+
+function toDateString({ year, month, day }: { year: number; month: number; day: number }): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function invalid(error: string, message: string): BookingDetailsValidation {
+  return { valid: false, error, message };
+}
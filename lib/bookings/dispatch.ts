@@ -0,0 +1,124 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { transitionBooking } from './lifecycle';
+import { placeBookingCall } from './calls';
+import { exhaustRetries, scheduleRetry } from './retries';
+import { Booking, BookingStatus } from '@/types';
+
+// Statuses waiting on `next_attempt_at` to place their next call
+export const PENDING_CALL_STATUSES: readonly BookingStatus[] = ['scheduled', 'retry_scheduled'];
+
+// Bookings dispatched per worker invocation
+const MAX_CALLS_PER_SWEEP = 10;
+
+/**
+ * Moves a campaign on after one of its calls couldn't be placed
+ *
+ * @param booking - The campaign booking, now `failed`
+ * @returns Whether its chat got an update to follow up on
+ */
+export type CampaignCallFailedHandler = (booking: Booking) => Promise<boolean>;
+
+/**
+ * Put off a booking's first call until a later time
+ *
+ * @param booking - The booking, before its first call
+ * @param callAt - When to place the call
+ * @param cause - Why the call is scheduled
+ * @returns The booking, now in `scheduled`
+ */
+export async function scheduleCall(booking: Booking, callAt: Date, cause: string): Promise<Booking> {
+  const updated = await transitionBooking(booking.id, 'scheduled', {
+    cause,
+    details: { nextAttemptAt: callAt.toISOString(), callWindow: booking.call_window },
+    changes: { next_attempt_at: callAt.toISOString() },
+  });
+
+  console.log('Booking call scheduled:', { bookingId: booking.id, nextAttemptAt: callAt.toISOString() });
+  return updated;
+}
+
+/**
+ * Place the calls for bookings whose scheduled call or retry is due
+ *
+ * Each booking is claimed by clearing `next_attempt_at`, so concurrent
+ * workers don't call twice. If the call can't be placed, the attempt counts
+ * and a retry is scheduled (or the user is told). A campaign booking fails
+ * instead and `onCampaignCallFailed` moves its campaign on.
+ *
+ * @param onCampaignCallFailed - Called for campaign bookings whose call couldn't be placed
+ * @returns IDs of chats that got a booking update to follow up on
+ */
+export async function dispatchDueCalls(onCampaignCallFailed?: CampaignCallFailedHandler): Promise<string[]> {
+  const supabase = getServerSupabase();
+  const { data: due, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .in('status', PENDING_CALL_STATUSES)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(MAX_CALLS_PER_SWEEP);
+
+  if (error) {
+    console.error('Error fetching due booking calls:', error);
+    throw error;
+  }
+
+  const updatedChats: string[] = [];
+
+  for (const booking of (due || []) as Booking[]) {
+    const { data: claimed } = await supabase
+      .from('bookings')
+      .update({ next_attempt_at: null })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .eq('next_attempt_at', booking.next_attempt_at)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) continue;
+
+    const cause = booking.status === 'scheduled' ? 'scheduled_call' : 'retry';
+    try {
+      await placeBookingCall(booking, cause);
+    } catch (callError) {
+      const reason = callError instanceof Error ? callError.message : 'Unknown error';
+      console.error('Error placing booking call:', { bookingId: booking.id, cause, reason });
+
+      try {
+        // A call that couldn't be placed still uses up an attempt
+        const attemptCount = (booking.attempt_count || 0) + 1;
+
+        // Campaigns don't retry: the next business is called instead
+        if (booking.campaign_id && onCampaignCallFailed) {
+          const failed = await transitionBooking(booking.id, 'failed', {
+            cause: `${cause}_dispatch_failed`,
+            details: { error: reason },
+            changes: {
+              attempt_count: attemptCount,
+              result: { ...booking.result, reason: `Couldn't place the call: ${reason}` },
+            },
+          });
+          if (await onCampaignCallFailed(failed)) {
+            updatedChats.push(booking.chat_id);
+          }
+          continue;
+        }
+
+        const counted = { ...booking, attempt_count: attemptCount };
+        await supabase.from('bookings').update({ attempt_count: attemptCount }).eq('id', booking.id);
+
+        const nextAttempt = await scheduleRetry(counted, `${cause}_dispatch_failed`);
+        if (!nextAttempt) {
+          await exhaustRetries(counted, {
+            status: 'failed',
+            reason: `Couldn't place the call: ${reason}`,
+          });
+          updatedChats.push(booking.chat_id);
+        }
+      } catch (scheduleError) {
+        console.error('Error rescheduling booking call:', scheduleError);
+      }
+    }
+  }
+
+  return updatedChats;
+}
@@ -0,0 +1,73 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { parseDateTimeInZone } from '@/lib/time-zones';
+import { FINAL_BOOKING_STATUSES } from './lifecycle';
+import { getBookingDateTime, getBusinessName } from './details';
+import { Booking, BookingDetails } from '@/types';
+
+// Bookings this close together at the same business count as the same booking
+const DUPLICATE_WINDOW_MINUTES = 60;
+
+// Recent bookings compared against a new one
+const MAX_CANDIDATES = 50;
+
+/**
+ * Find a live booking that looks like the same request
+ *
+ * Same user, booking type and business (by phone number or name), for about
+ * the same time (same check-in day for hotels). Failed and cancelled bookings
+ * don't count.
+ *
+ * @param userId - The user making the booking
+ * @param details - The new booking's normalised details
+ * @returns The existing booking, or null if there isn't one
+ */
+export async function findDuplicateBooking(
+  userId: string,
+  details: BookingDetails
+): Promise<Booking | null> {
+  const supabase = getServerSupabase();
+  const { data: candidates, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('booking_type', details.bookingType)
+    .not('status', 'in', `(${FINAL_BOOKING_STATUSES.join(',')})`)
+    .order('created_at', { ascending: false })
+    .limit(MAX_CANDIDATES);
+
+  if (error) {
+    console.error('Error checking for duplicate bookings:', error);
+    throw error;
+  }
+
+  return (
+    ((candidates || []) as Booking[]).find(
+      (booking) => isSameBusiness(booking.details, details) && isSameTime(booking.details, details)
+    ) || null
+  );
+}
+
+function isSameBusiness(existing: BookingDetails, requested: BookingDetails): boolean {
+  if (existing.phoneNumber && existing.phoneNumber === requested.phoneNumber) {
+    return true;
+  }
+
+  const normalize = (name: string) => name.trim().toLowerCase();
+  return normalize(getBusinessName({ details: existing })) === normalize(requested.businessName);
+}
+
+function isSameTime(existing: BookingDetails, requested: BookingDetails): boolean {
+  const existingTime = getBookingDateTime(existing);
+  const requestedTime = getBookingDateTime(requested);
+  if (!existingTime || !requestedTime) {
+    return false;
+  }
+
+  if (requested.bookingType === 'hotel') {
+    return existingTime.slice(0, 10) === requestedTime.slice(0, 10);
+  }
+
+  const a = parseDateTimeInZone(existingTime, existing.timeZone);
+  const b = parseDateTimeInZone(requestedTime, requested.timeZone);
+  return !!a && !!b && Math.abs(a.getTime() - b.getTime()) <= DUPLICATE_WINDOW_MINUTES * 60 * 1000;
+}
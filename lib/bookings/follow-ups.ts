@@ -0,0 +1,107 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { describeBookingDetails, formatBookingTime, getBookingDateTime, getBusinessName } from './details';
+import { Booking, BookingDetails, BookingStatus, CallContext, FollowUpAction } from '@/types';
+
+// Nothing is booked with the business yet: cancelling doesn't need a call
+export const UNCONFIRMED_BOOKING_STATUSES: readonly BookingStatus[] = [
+  'awaiting_approval',
+  'scheduled',
+  'retry_scheduled',
+  'awaiting_user',
+];
+
+// A follow-up call in one of these is still waiting to be placed or going on
+export const OPEN_FOLLOW_UP_STATUSES: readonly BookingStatus[] = [
+  'initiated',
+  'awaiting_approval',
+  'scheduled',
+  'calling',
+  'busy',
+  'no_answer',
+  'voicemail',
+  'retry_scheduled',
+];
+
+/**
+ * A booking as the business has it: at the time they actually booked, if that differs
+ */
+export function getBookedDetails(booking: Pick<Booking, 'details' | 'result'>): BookingDetails {
+  const { details } = booking;
+  const booked = booking.result?.bookedDateTime;
+  if (!booked) {
+    return details;
+  }
+  return details.bookingType === 'hotel' ? { ...details, checkIn: booked } : { ...details, dateTime: booked };
+}
+
+/**
+ * What the calling agent needs to know to cancel or change a booking
+ *
+ * @param original - The booking the business confirmed
+ * @param action - Cancel it, or change it to `details`
+ * @param details - The booking as it should be after the call
+ * @param reason - Why the customer is cancelling, if they said
+ */
+export function buildFollowUpContext(
+  original: Booking,
+  action: FollowUpAction,
+  details: BookingDetails,
+  reason?: string
+): CallContext {
+  const booked = getBookedDetails(original);
+  const time = getBookingDateTime(booked);
+  const name = original.result?.bookedUnderName || booked.customerName;
+  const confirmationNumber = original.result?.confirmationNumber;
+
+  const existing =
+    `The customer has a booking at ${getBusinessName(original)}` +
+    (name ? ` under ${name}` : '') +
+    (time ? ` for ${formatBookingTime(time, booked.timeZone)}` : '') +
+    (confirmationNumber ? ` (confirmation number ${confirmationNumber})` : '') +
+    '.';
+
+  return action === 'cancel'
+    ? {
+        purpose: 'cancel_booking',
+        note: `${existing} Cancel it${reason ? ` (${reason})` : ''}.`,
+      }
+    : {
+        purpose: 'modify_booking',
+        note:
+          `${existing} Ask to change it to ${describeBookingDetails(details)}` +
+          (details.specialRequests && details.specialRequests !== booked.specialRequests
+            ? `, with: ${details.specialRequests}`
+            : '') +
+          ". If they can't, keep the existing booking as it is.",
+      };
+}
+
+/**
+ * Whether the business agreed to the cancellation or change
+ */
+export function isFollowUpAgreed(followUp: Pick<Booking, 'status' | 'result'>): boolean {
+  return followUp.status === 'completed' && followUp.result?.confirmed === true;
+}
+
+/**
+ * A follow-up call for the booking that hasn't finished yet
+ *
+ * @param bookingId - The original booking
+ */
+export async function findOpenFollowUp(bookingId: string): Promise<Booking | null> {
+  const supabase = getServerSupabase();
+  const { data: followUps, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('follow_up_of', bookingId)
+    .in('status', OPEN_FOLLOW_UP_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching follow-up calls:', error);
+    throw error;
+  }
+
+  return ((followUps || [])[0] as Booking) || null;
+}
@@ -0,0 +1,105 @@
+import { getServerSupabase } from '@/lib/supabase';
+
+// A request still unfinished after this long is assumed to have crashed (maxDuration is 60s)
+const IN_PROGRESS_TIMEOUT_SECONDS = 120;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export type IdempotencyClaim =
+  | { state: 'new' }
+  | { state: 'replay'; status: number; response: Record<string, any> }
+  | { state: 'in_progress' };
+
+/**
+ * Claim an idempotency key for a booking start request
+ *
+ * The first request with a key claims it and runs; later requests with the
+ * same key get the first one's response, or `in_progress` while it's still
+ * running.
+ *
+ * @param userId - Keys are scoped per user
+ * @param key - The caller's idempotency key, e.g. 'tool-call:call_abc123'
+ */
+export async function claimIdempotencyKey(userId: string, key: string): Promise<IdempotencyClaim> {
+  const supabase = getServerSupabase();
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { error: insertError } = await supabase
+      .from('booking_requests')
+      .insert({ user_id: userId, idempotency_key: key });
+
+    if (!insertError) {
+      return { state: 'new' };
+    }
+    if (insertError.code !== UNIQUE_VIOLATION) {
+      console.error('Error claiming idempotency key:', insertError);
+      throw insertError;
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('booking_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('idempotency_key', key)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching idempotency key:', fetchError);
+      throw fetchError;
+    }
+    if (!existing) continue; // Released in the meantime; claim it again
+
+    if (existing.response_status !== null) {
+      return { state: 'replay', status: existing.response_status, response: existing.response };
+    }
+
+    const age = Date.now() - new Date(existing.created_at).getTime();
+    if (age < IN_PROGRESS_TIMEOUT_SECONDS * 1000) {
+      return { state: 'in_progress' };
+    }
+
+    // The first request died without finishing; take the key over
+    console.warn('Reclaiming abandoned idempotency key:', { userId, key });
+    await supabase
+      .from('booking_requests')
+      .delete()
+      .eq('id', existing.id)
+      .is('response_status', null);
+  }
+
+  return { state: 'in_progress' };
+}
+
+/**
+ * Save the response for a claimed idempotency key so replays return it
+ *
+ * Server errors release the key instead, so the request can be retried.
+ *
+ * @param userId - The user the key belongs to
+ * @param key - The claimed key
+ * @param status - HTTP status of the response
+ * @param response - The response body
+ */
+export async function completeIdempotencyKey(
+  userId: string,
+  key: string,
+  status: number,
+  response: Record<string, any>
+): Promise<void> {
+  const supabase = getServerSupabase();
+  const query =
+    status >= 500
+      ? supabase.from('booking_requests').delete()
+      : supabase.from('booking_requests').update({
+          response_status: status,
+          response,
+          booking_id: response.bookingId || null,
+          completed_at: new Date().toISOString(),
+        });
+
+  const { error } = await query.eq('user_id', userId).eq('idempotency_key', key);
+  if (error) {
+    console.error('Error saving idempotency key response:', error);
+  }
+}
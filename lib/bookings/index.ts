@@ -0,0 +1,94 @@
+export {
+  ACTIVE_CALL_STATUSES,
+  BOOKING_TRANSITIONS,
+  FINAL_BOOKING_STATUSES,
+  canTransition,
+  createBooking,
+  statusForCallOutcome,
+  transitionBooking,
+} from './lifecycle';
+export { findBookingByCallId, placeBookingCall, recordAttemptOutcome } from './calls';
+export {
+  DEFAULT_RETRY_POLICIES,
+  RETRYABLE_STATUSES,
+  exhaustRetries,
+  getNextAttemptTime,
+  resolveRetryPolicy,
+  scheduleRetry,
+} from './retries';
+export {
+  DEFAULT_CALL_HOURS,
+  getNextCallTime,
+  resolveCallWindow,
+  validateCallWindow,
+} from './call-window';
+export {
+  BOOKING_TYPES,
+  describeBookingDetails,
+  formatBookingTime,
+  getBookingDateTime,
+  getBookingDeadline,
+  getBusinessName,
+  normalizeBookingDateTimes,
+  toBookingCallArguments,
+  validateBookingDetails,
+} from './details';
+export { PENDING_CALL_STATUSES, dispatchDueCalls, scheduleCall } from './dispatch';
+export { analyzeCallOutcome } from './analysis';
+export {
+  MAX_CAMPAIGN_CANDIDATES,
+  MAX_CAMPAIGN_PARALLELISM,
+  OPEN_CAMPAIGN_STATUSES,
+  claimNextCandidate,
+  createCampaign,
+  finishCampaign,
+  getCampaign,
+  listCampaignBookings,
+  updatePendingCampaign,
+} from './campaigns';
+export { EDITABLE_BOOKING_FIELDS, isCallPreApproved, pickBookingEdits } from './approval';
+export {
+  OPEN_FOLLOW_UP_STATUSES,
+  UNCONFIRMED_BOOKING_STATUSES,
+  buildFollowUpContext,
+  findOpenFollowUp,
+  getBookedDetails,
+  isFollowUpAgreed,
+} from './follow-ups';
+export { findDuplicateBooking } from './duplicates';
+export { getLocalBookingTime, matchesBookingSearch, sortByBookingTime } from './search';
+export { claimIdempotencyKey, completeIdempotencyKey } from './idempotency';
+export {
+  CALL_PROGRESS_LABELS,
+  CALL_PROGRESS_STEPS,
+  describeCallProgress,
+  getCallProgressStep,
+  stageForProgressEvent,
+} from './progress';
+export {
+  acceptAlternativeTime,
+  applyCallProgress,
+  applyCallResult,
+  cancelBookings,
+  dispatchBookings,
+  getBooking,
+  listBookings,
+  requestBookingCancellation,
+  requestBookingChange,
+  respondToCallApproval,
+  searchBookings,
+  startBooking,
+  startBookingCampaign,
+} from './service';
+export type { TransitionOptions } from './lifecycle';
+export type { BookingDetailsValidation } from './details';
+export type { IdempotencyClaim } from './idempotency';
+export type { BookingSearchFilters } from './search';
+export type {
+  BookingScope,
+  BookingSearchResult,
+  CallbackResult,
+  ListBookingsOptions,
+  ProgressResult,
+  StartBookingOptions,
+} from './service';
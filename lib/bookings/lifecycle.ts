@@ -0,0 +1,204 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { InvalidBookingTransitionError } from '@/lib/errors';
+import { Booking, BookingCallbackRequest, BookingStatus } from '@/types';
+
+/**
+ * Allowed status changes for a booking
+ *
+ * Every status change goes through `transitionBooking`, which rejects anything
+ * not listed here. `completed` can still be cancelled; `failed` and
+ * `cancelled` are final. `scheduled` and `retry_scheduled` move to themselves
+ * when a call is pushed back, and `awaiting_approval` when the user edits the
+ * booking. An approved call goes through `scheduled`, which claims it.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  initiated: ['awaiting_approval', 'calling', 'scheduled', 'failed', 'cancelled'],
+  awaiting_approval: ['awaiting_approval', 'scheduled', 'failed', 'cancelled'],
+  scheduled: ['calling', 'scheduled', 'retry_scheduled', 'awaiting_user', 'failed', 'cancelled'],
+  calling: ['completed', 'failed', 'busy', 'no_answer', 'voicemail', 'awaiting_user', 'cancelled'],
+  busy: ['retry_scheduled', 'awaiting_user', 'calling', 'failed', 'cancelled'],
+  no_answer: ['retry_scheduled', 'awaiting_user', 'calling', 'failed', 'cancelled'],
+  voicemail: ['retry_scheduled', 'awaiting_user', 'calling', 'failed', 'cancelled'],
+  retry_scheduled: ['calling', 'retry_scheduled', 'awaiting_user', 'failed', 'cancelled'],
+  awaiting_user: ['calling', 'scheduled', 'retry_scheduled', 'failed', 'cancelled'],
+  completed: ['cancelled'],
+  failed: [],
+  cancelled: [],
+};
+
+// A call is being placed or is in progress
+export const ACTIVE_CALL_STATUSES: readonly BookingStatus[] = ['initiated', 'calling'];
+
+// Nothing more will happen to the booking
+export const FINAL_BOOKING_STATUSES: readonly BookingStatus[] = ['failed', 'cancelled'];
+
+/**
+ * Booking status for a call outcome reported by the MCP server
+ */
+export function statusForCallOutcome(outcome: BookingCallbackRequest['status']): BookingStatus {
+  switch (outcome) {
+    case 'completed':
+      return 'completed';
+    case 'busy':
+      return 'busy';
+    case 'no-answer':
+      return 'no_answer';
+    case 'voicemail':
+      return 'voicemail';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Whether a booking may move from one status to another
+ */
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export interface TransitionOptions {
+  /** Why the status changed, e.g. 'call_started' or 'callback:busy' */
+  cause: string;
+  /** Extra context saved with the booking event */
+  details?: Record<string, any>;
+  /** Other booking columns to update along with the status */
+  changes?: Partial<
+    Pick<
+      Booking,
+      'call_id' | 'details' | 'result' | 'attempt_count' | 'next_attempt_at' | 'progress' | 'call_context'
+    >
+  >;
+}
+
+/**
+ * Create a booking in the `initiated` status and record the first event
+ *
+ * @param booking - Columns of the new booking (status is set here)
+ * @param cause - Why the booking was created
+ * @returns The created booking
+ */
+export async function createBooking(
+  booking: Pick<
+    Booking,
+    | 'user_id'
+    | 'chat_id'
+    | 'booking_type'
+    | 'details'
+    | 'retry_policy'
+    | 'call_window'
+    | 'campaign_id'
+    | 'campaign_rank'
+    | 'call_context'
+    | 'follow_up_of'
+    | 'follow_up_action'
+  >,
+  cause: string
+): Promise<Booking> {
+  const supabase = getServerSupabase();
+  const { data: created, error } = await supabase
+    .from('bookings')
+    .insert({ ...booking, status: 'initiated' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating booking record:', error);
+    throw new Error(`Failed to create booking: ${error.message}`);
+  }
+
+  await recordBookingEvent(created.id, null, 'initiated', cause);
+  return created as Booking;
+}
+
+/**
+ * Move a booking to a new status
+ *
+ * The update only applies if the booking is still in the status it was read
+ * in, so two concurrent transitions can't both succeed.
+ *
+ * @param bookingId - The booking to update
+ * @param to - The new status
+ * @param options - Cause, event details and other columns to update
+ * @returns The updated booking
+ * @throws InvalidBookingTransitionError if the lifecycle doesn't allow the change
+ */
+export async function transitionBooking(
+  bookingId: string,
+  to: BookingStatus,
+  { cause, details, changes }: TransitionOptions
+): Promise<Booking> {
+  const supabase = getServerSupabase();
+  const { data: current, error: fetchError } = await supabase
+    .from('bookings')
+    .select('status')
+    .eq('id', bookingId)
+    .single();
+
+  if (fetchError || !current) {
+    console.error('Error fetching booking for transition:', fetchError);
+    throw fetchError || new Error(`Booking not found: ${bookingId}`);
+  }
+
+  const from = current.status as BookingStatus;
+  if (!canTransition(from, to)) {
+    console.warn('Rejected booking transition:', { bookingId, from, to, cause });
+    throw new InvalidBookingTransitionError(bookingId, from, to);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('bookings')
+    .update({ ...changes, status: to })
+    .eq('id', bookingId)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    console.error('Error updating booking status:', updateError);
+    throw updateError;
+  }
+
+  if (!updated) {
+    // Someone else changed the status after we read it
+    const { data: latest } = await supabase
+      .from('bookings')
+      .select('status')
+      .eq('id', bookingId)
+      .single();
+    throw new InvalidBookingTransitionError(bookingId, latest?.status || from, to);
+  }
+
+  await recordBookingEvent(bookingId, from, to, cause, details);
+
+  console.log('Booking status changed:', { bookingId, from, to, cause });
+  return updated as Booking;
+}
+
+/**
+ * Add an entry to a booking's history without changing its status
+ *
+ * Status changes record their own events through `transitionBooking`; this is
+ * for things that happen within a status, like call progress.
+ */
+export async function recordBookingEvent(
+  bookingId: string,
+  from: BookingStatus | null,
+  to: BookingStatus,
+  cause: string,
+  details: Record<string, any> = {}
+): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase.from('booking_events').insert({
+    booking_id: bookingId,
+    from_status: from,
+    to_status: to,
+    cause,
+    details,
+  });
+
+  // The status change itself succeeded; a missing history row isn't worth failing over
+  if (error) {
+    console.error('Error recording booking event:', error);
+  }
+}
@@ -0,0 +1,60 @@
+import { BookingProgressRequest, CallProgress, CallProgressStage } from '@/types';
+
+// Stages shown in the progress indicator, in the order a call usually goes through them
+export const CALL_PROGRESS_STEPS: readonly CallProgressStage[] = [
+  'dialing',
+  'ringing',
+  'answered',
+  'speaking_with_staff',
+];
+
+export const CALL_PROGRESS_LABELS: Record<CallProgressStage, string> = {
+  dialing: 'Dialling…',
+  ringing: 'Ringing…',
+  answered: 'Answered',
+  on_hold: 'On hold',
+  speaking_with_staff: 'Speaking with staff',
+  transferred: 'Being transferred',
+  ended: 'Call ended',
+};
+
+/**
+ * Progress stage for an event reported by the telephony side
+ */
+export function stageForProgressEvent(event: BookingProgressRequest['event']): CallProgressStage | null {
+  switch (event) {
+    case 'ringing':
+      return 'ringing';
+    case 'answered':
+      return 'answered';
+    case 'on-hold':
+      return 'on_hold';
+    case 'speaking-with-staff':
+      return 'speaking_with_staff';
+    case 'transferred':
+      return 'transferred';
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line progress text, e.g. 'On hold' or 'Being transferred (reservations desk)'
+ */
+export function describeCallProgress(progress: CallProgress): string {
+  const label = CALL_PROGRESS_LABELS[progress.stage] || progress.stage;
+  return progress.detail ? `${label} (${progress.detail})` : label;
+}
+
+/**
+ * How far along the indicator a stage is; on hold and transfers happen after someone answers
+ */
+export function getCallProgressStep(stage: CallProgressStage): number {
+  if (stage === 'on_hold' || stage === 'transferred') {
+    return CALL_PROGRESS_STEPS.indexOf('answered');
+  }
+  if (stage === 'ended') {
+    return CALL_PROGRESS_STEPS.length;
+  }
+  return CALL_PROGRESS_STEPS.indexOf(stage);
+}
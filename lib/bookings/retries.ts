@@ -0,0 +1,106 @@
+import { postBookingUpdate, CallOutcome } from '@/lib/booking-updates';
+import { transitionBooking } from './lifecycle';
+import { getNextCallTime } from './call-window';
+import { getBookingDeadline } from './details';
+import { Booking, BookingStatus, BookingType, RetryPolicy } from '@/types';
+
+// Defaults per booking type; a booking can override any field when it's created
+export const DEFAULT_RETRY_POLICIES: Record<BookingType, RetryPolicy> = {
+  restaurant: { maxAttempts: 3, initialDelayMinutes: 10, backoffMultiplier: 2, giveUpMinutesBefore: 60 },
+  hotel: { maxAttempts: 4, initialDelayMinutes: 30, backoffMultiplier: 2, giveUpMinutesBefore: 180 },
+  taxi: { maxAttempts: 3, initialDelayMinutes: 2, backoffMultiplier: 2, giveUpMinutesBefore: 15 },
+};
+
+// Call outcomes worth trying again without asking the user
+export const RETRYABLE_STATUSES: readonly BookingStatus[] = ['busy', 'no_answer', 'voicemail'];
+
+/**
+ * The retry policy for a new booking: the type's defaults plus any overrides
+ */
+export function resolveRetryPolicy(
+  bookingType: BookingType,
+  overrides: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICIES[bookingType], ...overrides };
+}
+
+/**
+ * When the next call for a booking should be placed
+ *
+ * @param booking - The booking after its latest attempt
+ * @param now - Current time
+ * @returns The time of the next attempt (within the booking's call window),
+ *   or null if the policy is exhausted
+ */
+export function getNextAttemptTime(booking: Booking, now: Date = new Date()): Date | null {
+  const policy = resolveRetryPolicy(booking.booking_type, booking.retry_policy);
+  const attempts = booking.attempt_count || 1;
+
+  if (attempts >= policy.maxAttempts) {
+    return null;
+  }
+
+  const delayMinutes = policy.initialDelayMinutes * policy.backoffMultiplier ** (attempts - 1);
+  const nextAttempt = getNextCallTime(
+    booking.call_window,
+    new Date(now.getTime() + delayMinutes * 60 * 1000)
+  );
+
+  // No point calling once it's too close to the booking itself
+  const bookingTime = getBookingDeadline(
+    booking.details,
+    booking.details.timeZone || booking.call_window?.timeZone
+  );
+  if (
+    bookingTime &&
+    nextAttempt.getTime() > bookingTime.getTime() - policy.giveUpMinutesBefore * 60 * 1000
+  ) {
+    return null;
+  }
+
+  return nextAttempt;
+}
+
+/**
+ * Schedule another call for a booking whose call was busy or unanswered
+ *
+ * @param booking - The booking, in a retryable status
+ * @param cause - Why the retry is scheduled
+ * @returns When the retry will happen, or null if the retry policy is exhausted
+ */
+export async function scheduleRetry(booking: Booking, cause: string): Promise<Date | null> {
+  const nextAttempt = getNextAttemptTime(booking);
+  if (!nextAttempt) {
+    return null;
+  }
+
+  await transitionBooking(booking.id, 'retry_scheduled', {
+    cause,
+    details: { attemptCount: booking.attempt_count, nextAttemptAt: nextAttempt.toISOString() },
+    changes: { next_attempt_at: nextAttempt.toISOString() },
+  });
+
+  console.log('Booking retry scheduled:', {
+    bookingId: booking.id,
+    attemptCount: booking.attempt_count,
+    nextAttemptAt: nextAttempt.toISOString(),
+  });
+  return nextAttempt;
+}
+
+/**
+ * Give up retrying: hand the decision back to the user and tell them
+ *
+ * @param booking - The booking whose retries are exhausted
+ * @param outcome - How the last attempt ended
+ * @returns The booking, now in `awaiting_user`
+ */
+export async function exhaustRetries(booking: Booking, outcome: CallOutcome): Promise<Booking> {
+  const updated = await transitionBooking(booking.id, 'awaiting_user', {
+    cause: 'retries_exhausted',
+    details: { attemptCount: booking.attempt_count, lastOutcome: outcome.status },
+  });
+
+  await postBookingUpdate(updated, outcome, updated.call_id);
+  return updated;
+}
@@ -0,0 +1,98 @@
+import { parseDateTimeInZone, toZonedISOString } from '@/lib/time-zones';
+import { getBookingDateTime, getBusinessName } from './details';
+import { getBookedDetails } from './follow-ups';
+import { Booking } from '@/types';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface BookingSearchFilters {
+  /** Bookings at or after this local date or time, YYYY-MM-DD or YYYY-MM-DD HH:MM */
+  from?: string;
+  /** Bookings at or before this local date (the whole day) or time */
+  to?: string;
+  /** Part of the business's name, any case */
+  businessName?: string;
+  /** Bookings still to come, or already past */
+  when?: 'upcoming' | 'past';
+}
+
+/**
+ * When a booking starts, as wall-clock time where the business is
+ *
+ * Uses the time the business actually booked, if that differs from the one
+ * asked for. Hotel stays without an arrival time are just the check-in date.
+ *
+ * @returns 'YYYY-MM-DD HH:MM' (or 'YYYY-MM-DD'), or undefined if the booking has no time
+ */
+export function getLocalBookingTime(booking: Pick<Booking, 'details' | 'result'>): string | undefined {
+  const details = getBookedDetails(booking);
+  const value = getBookingDateTime(details)?.trim();
+  if (!value || DATE_ONLY_PATTERN.test(value)) {
+    return value;
+  }
+
+  // Bookings made before times were normalised have no time zone; they're as entered
+  const parsed = details.timeZone ? parseDateTimeInZone(value, details.timeZone) : null;
+  const local = parsed ? toZonedISOString(parsed, details.timeZone!) : value;
+  return local.slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * Whether a booking matches the date range, business name and upcoming/past filters
+ *
+ * Dates and times are compared in each booking's own time zone, the way the
+ * user and the business talk about them. Bookings without a time only match
+ * when no time filter is set.
+ *
+ * @param booking - The booking to check
+ * @param filters - The filters to apply
+ * @param now - Current time, for `when`
+ */
+export function matchesBookingSearch(
+  booking: Pick<Booking, 'details' | 'result'>,
+  { from, to, businessName, when }: BookingSearchFilters,
+  now: Date = new Date()
+): boolean {
+  if (businessName) {
+    const normalize = (name: string) => name.trim().toLowerCase();
+    if (!normalize(getBusinessName(booking)).includes(normalize(businessName))) {
+      return false;
+    }
+  }
+
+  if (!from && !to && !when) {
+    return true;
+  }
+
+  const time = getLocalBookingTime(booking);
+  if (!time) {
+    return false;
+  }
+  if (from && time < from.trim()) {
+    return false;
+  }
+  if (to && time.slice(0, to.trim().length) > to.trim()) {
+    return false;
+  }
+
+  if (when) {
+    const zone = booking.details.timeZone || 'UTC';
+    const current = toZonedISOString(now, zone).slice(0, time.length).replace('T', ' ');
+    return when === 'upcoming' ? time >= current : time < current;
+  }
+  return true;
+}
+
+/**
+ * Order bookings by when they start: soonest first, or latest first for past bookings
+ */
+export function sortByBookingTime<T extends Pick<Booking, 'details' | 'result'>>(
+  bookings: T[],
+  direction: 'ascending' | 'descending' = 'ascending'
+): T[] {
+  const sign = direction === 'ascending' ? 1 : -1;
+  return bookings
+    .map((booking) => ({ booking, time: getLocalBookingTime(booking) || '' }))
+    .sort((a, b) => sign * a.time.localeCompare(b.time))
+    .map(({ booking }) => booking);
+}
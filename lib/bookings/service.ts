@@ -0,0 +1,1925 @@
+// Booking service: the one place bookings are created, dispatched, read, cancelled and
+// updated from call results. Tool handlers, API routes and scripts all call it directly.
+import { getServerSupabase } from '@/lib/supabase';
+import { callMCPTool } from '@/lib/mcp';
+import { postBookingUpdate, postCampaignSummary, showCallApproval, showCallProgress } from '@/lib/booking-updates';
+import { getUserPreferences } from '@/lib/users';
+import { normalizePhoneNumber, regionFromLocale } from '@/lib/phone-numbers';
+import { formatInTimeZone, isValidTimeZone, parseDateTimeInZone } from '@/lib/time-zones';
+import { BookingRequestError, InvalidBookingTransitionError } from '@/lib/errors';
+import {
+  ACTIVE_CALL_STATUSES,
+  createBooking,
+  recordBookingEvent,
+  statusForCallOutcome,
+  transitionBooking,
+} from './lifecycle';
+import { findBookingByCallId, placeBookingCall, recordAttemptOutcome } from './calls';
+import { RETRYABLE_STATUSES, exhaustRetries, resolveRetryPolicy, scheduleRetry } from './retries';
+import { getNextCallTime, resolveCallWindow, validateCallWindow } from './call-window';
+import {
+  formatBookingTime,
+  getBookingDateTime,
+  getBookingDeadline,
+  getBusinessName,
+  normalizeBookingDateTimes,
+  validateBookingDetails,
+} from './details';
+import { dispatchDueCalls, scheduleCall } from './dispatch';
+import { findDuplicateBooking } from './duplicates';
+import { claimIdempotencyKey, completeIdempotencyKey } from './idempotency';
+import { analyzeCallOutcome } from './analysis';
+import {
+  MAX_CAMPAIGN_CANDIDATES,
+  MAX_CAMPAIGN_PARALLELISM,
+  OPEN_CAMPAIGN_STATUSES,
+  claimNextCandidate,
+  createCampaign,
+  finishCampaign,
+  getCampaign,
+  listCampaignBookings,
+  updatePendingCampaign,
+} from './campaigns';
+import { isCallPreApproved, pickBookingEdits } from './approval';
+import {
+  UNCONFIRMED_BOOKING_STATUSES,
+  buildFollowUpContext,
+  findOpenFollowUp,
+  getBookedDetails,
+  isFollowUpAgreed,
+} from './follow-ups';
+import { stageForProgressEvent } from './progress';
+import { BookingSearchFilters, matchesBookingSearch, sortByBookingTime } from './search';
+import {
+  AcceptAlternativeRequest,
+  Booking,
+  BookingAttempt,
+  BookingCallbackRequest,
+  BookingCampaign,
+  BookingDetails,
+  BookingEdits,
+  BookingProgressRequest,
+  BookingResult,
+  BookingStatus,
+  BookingType,
+  CallApprovalRequest,
+  CallApprovalResponse,
+  CallContext,
+  CallProgress,
+  CallWindow,
+  CampaignBookingTemplate,
+  CampaignCandidate,
+  CancelBookingRequest,
+  FollowUpAction,
+  FollowUpCallResponse,
+  ModifyBookingRequest,
+  StartBookingRequest,
+  StartBookingResponse,
+  StartCampaignRequest,
+  StartCampaignResponse,
+  User,
+} from '@/types';
+
+// Calls due sooner than this are placed right away rather than scheduled
+const SCHEDULE_THRESHOLD_SECONDS = 60;
+
+// Most bookings returned by one listBookings call
+const MAX_LIST_LIMIT = 100;
+
+// Recent bookings searched through when filtering by time
+const MAX_SEARCH_CANDIDATES = 500;
+
+export interface StartBookingOptions {
+  /** Repeats with the same key (per user) return the first result instead of booking again */
+  idempotencyKey?: string;
+  /** Wait for the user to approve the call(s) in the chat, unless their call approval setting says otherwise */
+  requireApproval?: boolean;
+}
+
+export interface BookingScope {
+  /** Only bookings in this chat */
+  chatId?: string;
+  /** Only this user's bookings */
+  userId?: string;
+}
+
+export interface ListBookingsOptions extends BookingScope, BookingSearchFilters {
+  bookingType?: BookingType;
+  statuses?: readonly BookingStatus[];
+  /** Leave out the calls made to cancel or change other bookings */
+  excludeFollowUps?: boolean;
+  /** Defaults to 20 */
+  limit?: number;
+}
+
+export interface BookingSearchResult {
+  bookings: Booking[];
+  /** Only the most recent bookings in scope were searched; older matches may be missing */
+  partial: boolean;
+}
+
+export interface CallbackResult {
+  booking: Booking;
+  /** The callback was for an earlier call attempt and was only recorded */
+  superseded?: boolean;
+  /** When the next call is due, if the outcome is being retried */
+  retryScheduledAt?: string;
+  /** An update was posted to the chat and the assistant should follow up */
+  followUp: boolean;
+}
+
+export interface ProgressResult {
+  booking: Booking;
+  /** The event was out of date (an earlier call, a finished call, or older than the latest progress) */
+  ignored?: boolean;
+}
+
+/**
+ * Validate a booking request, create the booking and call or schedule it
+ *
+ * With `requireApproval`, the booking waits in `awaiting_approval` behind a
+ * card in the chat until the user approves, edits or cancels it (see
+ * `respondToCallApproval`), unless the user's call approval setting lets the
+ * call go ahead.
+ *
+ * @param request - What to book, for which chat and user
+ * @param options - Idempotency key and whether the user approves the call
+ * @returns The call ID, when the call is scheduled for, or that it's awaiting approval
+ * @throws BookingRequestError if the request is invalid, a duplicate, or already in progress
+ */
+export async function startBooking(
+  request: StartBookingRequest,
+  { idempotencyKey, requireApproval }: StartBookingOptions = {}
+): Promise<StartBookingResponse> {
+  return runIdempotently(request.userId, idempotencyKey, () => createAndCallBooking(request, { requireApproval }));
+}
+
+/**
+ * Try one booking at several businesses, best first, until one confirms
+ *
+ * Calls the first `parallelism` candidates (one by default) and, as each call
+ * ends without a booking, the next one. The first confirmed booking ends the
+ * campaign: calls not yet placed are cancelled, but calls already in progress
+ * are left to finish, so nothing a business has confirmed gets cancelled. The
+ * chat gets one summary of every business tried, not an update per call.
+ * Campaign calls aren't retried when busy or unanswered; the next business is
+ * called instead. With `requireApproval`, the whole campaign is approved once,
+ * before the first call.
+ *
+ * @param request - What to book, the businesses to try and how many to call at once
+ * @param options - Idempotency key and whether the user approves the calls
+ * @returns The campaign and the calls started so far, or that it's awaiting approval
+ * @throws BookingRequestError if the request is invalid or none of the businesses could be called
+ */
+export async function startBookingCampaign(
+  request: StartCampaignRequest,
+  { idempotencyKey, requireApproval }: StartBookingOptions = {}
+): Promise<StartCampaignResponse> {
+  return runIdempotently(request.userId, idempotencyKey, () => createAndRunCampaign(request, requireApproval));
+}
+
+/**
+ * Cancel a booking, calling the business back if they had confirmed it
+ *
+ * A booking nothing has been agreed for yet (scheduled, waiting on a retry,
+ * on the user or on their approval) is cancelled without a call. For a
+ * confirmed booking, a follow-up call is placed with the name, confirmation
+ * number and booked time; it's a booking of its own, linked by
+ * `follow_up_of`, and once the business agrees the original moves to
+ * `cancelled`.
+ *
+ * @param request - The booking, the chat asking and its user, and why (optional)
+ * @param options - Idempotency key and whether the user approves the call
+ * @returns The follow-up call, or `cancelled` if no call was needed
+ * @throws BookingRequestError if the booking can't be cancelled now
+ */
+export async function requestBookingCancellation(
+  request: CancelBookingRequest,
+  { idempotencyKey, requireApproval }: StartBookingOptions = {}
+): Promise<FollowUpCallResponse> {
+  return runIdempotently(request.userId, idempotencyKey, () => cancelOrCallBack(request, requireApproval));
+}
+
+/**
+ * Change a confirmed booking by calling the business back
+ *
+ * The changes are checked as for a new booking. The follow-up call is a
+ * booking of its own with the new details, linked by `follow_up_of`; once the
+ * business agrees, the original booking takes the new details (and any new
+ * confirmation number). If they can't, the original stays as it was.
+ *
+ * @param request - The booking, the chat asking and its user, and the new details
+ * @param options - Idempotency key and whether the user approves the call
+ * @returns The follow-up call, or when it's scheduled for
+ * @throws BookingRequestError if the booking isn't confirmed or the changes are invalid
+ */
+export async function requestBookingChange(
+  request: ModifyBookingRequest,
+  { idempotencyKey, requireApproval }: StartBookingOptions = {}
+): Promise<FollowUpCallResponse> {
+  return runIdempotently(request.userId, idempotencyKey, () => changeByCallingBack(request, requireApproval));
+}
+
+/**
+ * Approve, edit or cancel a booking call (or campaign) waiting for the user's approval
+ *
+ * Approving places the call, or schedules it if the business can't be called
+ * yet. Edits are validated as when the booking was requested and the card
+ * shows the new details, still waiting for approval. Cancelling closes the
+ * booking without calling anyone.
+ *
+ * @param request - The booking or campaign, its user, the action and any edits
+ * @returns What the booking or campaign is now, and the call if one was placed
+ * @throws BookingRequestError if it isn't waiting for approval or the edits are invalid
+ */
+export async function respondToCallApproval({
+  bookingId,
+  campaignId,
+  userId,
+  action,
+  changes,
+}: CallApprovalRequest): Promise<CallApprovalResponse> {
+  if (!userId || !action || (!bookingId && !campaignId)) {
+    throw new BookingRequestError(
+      400,
+      'Missing required fields',
+      'userId, action and a bookingId or campaignId are required'
+    );
+  }
+  if (!['approve', 'edit', 'cancel'].includes(action)) {
+    throw new BookingRequestError(400, 'Invalid action', 'action must be approve, edit or cancel');
+  }
+
+  console.log('Call approval response received:', { bookingId, campaignId, userId, action });
+
+  try {
+    return campaignId
+      ? await respondForCampaign(campaignId, userId, action, changes)
+      : await respondForBooking(bookingId!, userId, action, changes);
+  } catch (error) {
+    // Approved, edited or cancelled at the same time from somewhere else
+    if (error instanceof InvalidBookingTransitionError) {
+      throw new BookingRequestError(409, 'Not waiting for approval', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Place the calls for bookings whose scheduled call or retry is due
+ *
+ * @returns IDs of chats that got a booking update to follow up on
+ */
+export async function dispatchBookings(): Promise<string[]> {
+  const updatedChats = await dispatchDueCalls(advanceAfterFailedCall);
+  return Array.from(new Set(updatedChats));
+}
+
+/**
+ * Move a campaign on when one of its scheduled calls couldn't be placed
+ *
+ * @param booking - The campaign booking, now `failed`
+ * @returns Whether its chat got an update to follow up on
+ */
+async function advanceAfterFailedCall(booking: Booking): Promise<boolean> {
+  const followUp = await advanceCampaign(booking);
+  if (followUp !== null) {
+    return followUp;
+  }
+
+  await postBookingUpdate(booking, { status: 'failed', reason: booking.result?.reason }, booking.call_id || undefined);
+  return true;
+}
+
+/**
+ * Get a booking by ID
+ *
+ * @param bookingId - The booking
+ * @param scope - Only return it if it belongs to this chat and/or user
+ * @returns The booking, or null if there isn't one in scope
+ */
+export async function getBooking(bookingId: string, { chatId, userId }: BookingScope = {}): Promise<Booking | null> {
+  const supabase = getServerSupabase();
+  let query = supabase.from('bookings').select('*').eq('id', bookingId);
+  if (chatId) query = query.eq('chat_id', chatId);
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data: booking, error } = await query.maybeSingle();
+  if (error) {
+    console.error('Error fetching booking:', error);
+    throw error;
+  }
+
+  return (booking as Booking) || null;
+}
+
+/**
+ * List bookings, newest first
+ *
+ * With a date range or `when`, bookings are ordered by when they start
+ * instead: soonest first, or latest first for past bookings. See
+ * `searchBookings` for how those filters are applied.
+ *
+ * @param options - Chat/user scope and filters
+ */
+export async function listBookings(options: ListBookingsOptions = {}): Promise<Booking[]> {
+  const { bookings } = await searchBookings(options);
+  return bookings;
+}
+
+/**
+ * Find bookings, and say whether every booking in scope was looked at
+ *
+ * Scope, type, status and business name are filtered in the query. Times are
+ * compared in each booking's own time zone, so the date range and `when` are
+ * matched here, against the most recent bookings in scope; `partial` says if
+ * there were more than that.
+ *
+ * @param options - Chat/user scope and filters
+ */
+export async function searchBookings({
+  chatId,
+  userId,
+  bookingType,
+  statuses,
+  excludeFollowUps,
+  limit = 20,
+  ...filters
+}: ListBookingsOptions = {}): Promise<BookingSearchResult> {
+  const max = Math.min(limit, MAX_LIST_LIMIT);
+  const byTime = !!(filters.from || filters.to || filters.when);
+
+  const supabase = getServerSupabase();
+  let query = supabase.from('bookings').select('*');
+  if (chatId) query = query.eq('chat_id', chatId);
+  if (userId) query = query.eq('user_id', userId);
+  if (bookingType) query = query.eq('booking_type', bookingType);
+  if (statuses) query = query.in('status', statuses);
+  if (excludeFollowUps) query = query.is('follow_up_action', null);
+  if (filters.businessName?.trim()) {
+    query = query.ilike('details->>businessName', `%${escapeLikePattern(filters.businessName.trim())}%`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(byTime ? MAX_SEARCH_CANDIDATES : max);
+
+  if (error) {
+    console.error('Error listing bookings:', error);
+    throw error;
+  }
+
+  const bookings = (data || []) as Booking[];
+  if (!byTime) {
+    return { bookings, partial: false };
+  }
+
+  const now = new Date();
+  const matches = bookings.filter((booking) => matchesBookingSearch(booking, filters, now));
+  return {
+    bookings: sortByBookingTime(matches, filters.when === 'past' ? 'descending' : 'ascending').slice(0, max),
+    partial: bookings.length === MAX_SEARCH_CANDIDATES,
+  };
+}
+
+/**
+ * Stop booking calls that are still being placed or in progress
+ *
+ * Ends the call through the MCP server and moves the booking to `cancelled`.
+ * Bookings whose call couldn't be ended are left as they are.
+ *
+ * @param chatId - The chat the bookings belong to
+ * @param bookingIds - The bookings to cancel
+ * @returns The bookings that were cancelled
+ */
+export async function cancelBookings(chatId: string, bookingIds: string[]): Promise<Booking[]> {
+  if (bookingIds.length === 0) {
+    return [];
+  }
+
+  const supabase = getServerSupabase();
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('chat_id', chatId)
+    .in('id', bookingIds)
+    .in('status', ACTIVE_CALL_STATUSES);
+
+  if (error) {
+    console.error('Error fetching bookings to cancel:', error);
+    throw error;
+  }
+
+  const cancelled: Booking[] = [];
+  for (const booking of (bookings || []) as Booking[]) {
+    if (booking.call_id) {
+      try {
+        await callMCPTool('end_call', { callId: booking.call_id });
+      } catch (endCallError) {
+        console.error('Error ending call:', { callId: booking.call_id, error: endCallError });
+        continue;
+      }
+    }
+
+    try {
+      cancelled.push(
+        await transitionBooking(booking.id, 'cancelled', {
+          cause: 'user_cancelled',
+          details: { chatId },
+          changes: {
+            result: { ...booking.result, reason: 'Cancelled by user' },
+            progress: endedProgress(booking, 'cancelled'),
+          },
+        })
+      );
+      await showCallProgress(booking, endedProgress(booking, 'cancelled'));
+    } catch (transitionError) {
+      console.error('Error updating cancelled booking:', transitionError);
+    }
+  }
+
+  // Cancelling a campaign's call stops the campaign too
+  const campaignIds = cancelled.map((booking) => booking.campaign_id).filter((id): id is string => !!id);
+  for (const campaignId of Array.from(new Set(campaignIds))) {
+    if (await finishCampaign(campaignId, 'cancelled')) {
+      await stopCampaignCalls(campaignId, 'Campaign cancelled by user');
+    }
+  }
+
+  return cancelled;
+}
+
+/**
+ * Apply a call result reported by the MCP server
+ *
+ * Records the attempt, works out from the transcript what the business
+ * actually agreed to (a completed call the business declined doesn't count
+ * as a booking), moves the booking on, and either schedules a retry or posts
+ * the outcome to the chat. The caller runs the assistant follow-up
+ * when `followUp` is set.
+ *
+ * @param callback - The webhook payload
+ * @throws BookingRequestError if the call is unknown or the booking can't take the outcome
+ */
+export async function applyCallResult(callback: BookingCallbackRequest): Promise<CallbackResult> {
+  const { callId, status, result, transcript, duration, reason } = callback;
+
+  if (!callId) {
+    throw new BookingRequestError(400, 'Missing callId');
+  }
+
+  // Find booking (and which call attempt this was) by callId
+  const found = await findBookingByCallId(callId);
+  if (!found) {
+    console.error('Booking not found for callId:', callId);
+    throw new BookingRequestError(404, 'Booking not found');
+  }
+
+  const { booking, attempt } = found;
+  let bookingStatus = statusForCallOutcome(status);
+  let callResult: BookingResult = {
+    transcript,
+    duration,
+    reason,
+    ...result,
+  };
+
+  if (attempt) {
+    await recordAttemptOutcome(attempt, bookingStatus as BookingAttempt['status'], reason, callResult);
+  }
+
+  // A late callback for an earlier attempt; the booking has moved on
+  if (booking.call_id && booking.call_id !== callId) {
+    console.warn('Callback for a superseded call attempt:', { callId, bookingId: booking.id });
+    return { booking, superseded: true, followUp: false };
+  }
+
+  // The call got through: check what the business actually agreed to
+  let ending: string = status;
+  if (status === 'completed' || (status === 'failed' && transcript)) {
+    callResult = { ...callResult, ...(await analyzeCallOutcome(booking, callback)) };
+
+    // A call can complete without a booking, e.g. they're full
+    if (status === 'completed' && callResult.confirmed === false) {
+      bookingStatus = 'failed';
+      callResult.reason = reason || 'Declined by the business';
+      ending = 'declined';
+    }
+
+    // They offered other times: the user picks one (or none) before we call back
+    if (
+      callResult.confirmed !== true &&
+      callResult.alternativeTimes?.length &&
+      booking.follow_up_action !== 'cancel'
+    ) {
+      bookingStatus = 'awaiting_user';
+    }
+  }
+
+  let updatedBooking: Booking;
+  try {
+    updatedBooking = await transitionBooking(booking.id, bookingStatus, {
+      cause: `callback:${status}`,
+      details: {
+        callId,
+        duration,
+        reason: callResult.reason,
+        attemptNumber: attempt?.attempt_number,
+        confirmed: callResult.confirmed,
+      },
+      changes: { result: callResult, progress: endedProgress(booking, ending) },
+    });
+  } catch (error) {
+    // E.g. a late callback for a booking the user already cancelled
+    if (error instanceof InvalidBookingTransitionError) {
+      throw new BookingRequestError(409, error.message);
+    }
+    throw error;
+  }
+
+  await showCallProgress(updatedBooking, updatedBooking.progress || endedProgress(booking, ending));
+
+  const outcome = { status, result: callResult, transcript, duration, reason: callResult.reason };
+
+  // Busy or unanswered: call again later without bothering the user
+  if (RETRYABLE_STATUSES.includes(bookingStatus)) {
+    const nextAttempt = await scheduleRetry(updatedBooking, `callback:${status}`);
+    if (nextAttempt) {
+      return { booking: updatedBooking, retryScheduledAt: nextAttempt.toISOString(), followUp: false };
+    }
+  }
+
+  // Part of a campaign: the campaign reports on all its businesses at once
+  if (updatedBooking.campaign_id) {
+    const followUp = await advanceCampaign(updatedBooking);
+    if (followUp !== null) {
+      return { booking: updatedBooking, followUp };
+    }
+  }
+
+  if (RETRYABLE_STATUSES.includes(bookingStatus)) {
+    // Out of retries: the user decides what to do next
+    await exhaustRetries(updatedBooking, outcome);
+  } else {
+    if (updatedBooking.follow_up_of) {
+      await applyFollowUpOutcome(updatedBooking);
+    }
+    await postBookingUpdate(updatedBooking, outcome, callId);
+  }
+
+  return { booking: updatedBooking, followUp: true };
+}
+
+/**
+ * Accept one of the alternative times the business offered, and call back to confirm it
+ *
+ * The booking keeps its ID: its time changes to the chosen one and the next
+ * call tells the MCP server it's confirming an offered slot. The call is
+ * scheduled instead if the business can't be called right now.
+ *
+ * @param request - The booking, its user and the chosen time
+ * @returns The call ID, or when the call is scheduled for
+ * @throws BookingRequestError if the booking isn't waiting on a choice or the time wasn't offered
+ */
+export async function acceptAlternativeTime({
+  bookingId,
+  userId,
+  dateTime,
+}: AcceptAlternativeRequest): Promise<StartBookingResponse> {
+  if (!bookingId || !userId || !dateTime) {
+    throw new BookingRequestError(400, 'Missing required fields', 'bookingId, userId and dateTime are required');
+  }
+
+  const booking = await getBooking(bookingId, { userId });
+  if (!booking) {
+    throw new BookingRequestError(404, 'Booking not found');
+  }
+  if (booking.status !== 'awaiting_user') {
+    throw new BookingRequestError(409, 'Booking is not waiting for a decision', `Booking is ${booking.status}`);
+  }
+
+  const { details } = booking;
+  const alternatives = booking.result?.alternativeTimes || [];
+  const timeZone = details.timeZone || booking.call_window?.timeZone || 'UTC';
+  const chosen = findOfferedTime(alternatives, dateTime, timeZone);
+  if (!chosen) {
+    throw new BookingRequestError(
+      400,
+      'Not an offered time',
+      alternatives.length > 0
+        ? `Choose one of: ${alternatives.map((time) => formatBookingTime(time, details.timeZone)).join(', ')}`
+        : `${getBusinessName(booking)} didn't offer any other times`
+    );
+  }
+
+  const previous = getBookingDateTime(details);
+  const updatedDetails: BookingDetails =
+    details.bookingType === 'hotel' ? { ...details, checkIn: chosen } : { ...details, dateTime: chosen };
+  // For a change to an existing booking, the call still asks to change it, now to the offered time
+  const original = booking.follow_up_of ? await getBooking(booking.follow_up_of) : null;
+  const callContext: CallContext = original
+    ? buildFollowUpContext(original, 'modify', updatedDetails)
+    : {
+        purpose: 'confirm_alternative',
+        note:
+          `On an earlier call, ${getBusinessName(booking)} couldn't do ${previous ? formatBookingTime(previous, details.timeZone) : 'the requested time'}` +
+          ` and offered ${formatBookingTime(chosen, details.timeZone)} instead. The customer accepts that; confirm it.`,
+      };
+
+  // Claim the decision, so two clicks don't place two calls
+  const supabase = getServerSupabase();
+  const { data: claimed, error } = await supabase
+    .from('bookings')
+    .update({ details: updatedDetails, call_context: callContext })
+    .eq('id', booking.id)
+    .eq('status', 'awaiting_user')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error accepting alternative time:', error);
+    throw error;
+  }
+  if (!claimed) {
+    throw new BookingRequestError(409, 'Booking is not waiting for a decision');
+  }
+
+  const updated = claimed as Booking;
+  await recordBookingEvent(booking.id, 'awaiting_user', 'awaiting_user', 'alternative_accepted', {
+    previous,
+    chosen,
+  });
+  await markAlternativeChosen(booking, chosen);
+
+  const now = new Date();
+  const callTime = getNextCallTime(updated.call_window || null, now);
+  if (callTime.getTime() - now.getTime() > SCHEDULE_THRESHOLD_SECONDS * 1000) {
+    await scheduleCall(updated, callTime, 'alternative_accepted');
+    return {
+      success: true,
+      status: 'scheduled',
+      bookingId: booking.id,
+      scheduledFor: callTime.toISOString(),
+      scheduledForLocal: describeCallTime(callTime, updated.call_window || null),
+      bookingTime: describeBookingTime(updatedDetails),
+    };
+  }
+
+  const { callId } = await placeBookingCall(updated, 'alternative_accepted');
+  return {
+    success: true,
+    callId,
+    bookingId: booking.id,
+    bookingTime: describeBookingTime(updatedDetails),
+  };
+}
+
+/**
+ * Apply an intermediate event for a call in progress (ringing, on hold, ...)
+ *
+ * Updates `bookings.progress`, records the event in the booking's history and
+ * updates the booking's progress message in the chat. Events for an earlier
+ * call, a call that has already ended, or older than the latest progress are
+ * ignored.
+ *
+ * @param event - The webhook payload
+ * @throws BookingRequestError if the event or call is unknown
+ */
+export async function applyCallProgress(event: BookingProgressRequest): Promise<ProgressResult> {
+  const { callId, detail, timestamp } = event;
+
+  if (!callId) {
+    throw new BookingRequestError(400, 'Missing callId');
+  }
+
+  const stage = stageForProgressEvent(event.event);
+  if (!stage) {
+    throw new BookingRequestError(400, 'Invalid progress event', `Unknown event: ${event.event}`);
+  }
+
+  const updatedAt = timestamp ? new Date(timestamp) : new Date();
+  if (Number.isNaN(updatedAt.getTime())) {
+    throw new BookingRequestError(400, 'Invalid progress event', 'timestamp must be ISO 8601');
+  }
+
+  const found = await findBookingByCallId(callId);
+  if (!found) {
+    console.error('Booking not found for callId:', callId);
+    throw new BookingRequestError(404, 'Booking not found');
+  }
+
+  const { booking, attempt } = found;
+  const latest = booking.progress?.updatedAt ? new Date(booking.progress.updatedAt) : null;
+  if (booking.call_id !== callId || booking.status !== 'calling' || (latest && latest > updatedAt)) {
+    console.warn('Ignoring out-of-date call progress:', { callId, bookingId: booking.id, stage });
+    return { booking, ignored: true };
+  }
+
+  const progress: CallProgress = {
+    stage,
+    detail: detail || undefined,
+    attemptNumber: attempt?.attempt_number ?? booking.attempt_count,
+    updatedAt: updatedAt.toISOString(),
+  };
+
+  // Only while the call is still going; the final callback may have just arrived
+  const supabase = getServerSupabase();
+  const { data: updated, error } = await supabase
+    .from('bookings')
+    .update({ progress })
+    .eq('id', booking.id)
+    .eq('status', 'calling')
+    .eq('call_id', callId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating call progress:', error);
+    throw error;
+  }
+  if (!updated) {
+    return { booking, ignored: true };
+  }
+
+  await recordBookingEvent(booking.id, 'calling', 'calling', `progress:${event.event}`, { callId, detail });
+  await showCallProgress(updated as Booking, progress);
+
+  return { booking: updated as Booking };
+}
+
+/**
+ * Run a request once per user and idempotency key; repeats get the first response back
+ */
+async function runIdempotently<T extends { success: boolean; replayed?: boolean }>(
+  userId: string,
+  idempotencyKey: string | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  if (!idempotencyKey || !userId) {
+    return run();
+  }
+
+  const claim = await claimIdempotencyKey(userId, idempotencyKey);
+
+  if (claim.state === 'replay') {
+    console.log('Replaying booking start response:', { userId, idempotencyKey });
+    if (claim.status >= 400) {
+      const { success, error, details, ...extra } = claim.response;
+      throw new BookingRequestError(claim.status, error, details, { ...extra, replayed: true });
+    }
+    return { ...claim.response, replayed: true } as T;
+  }
+
+  if (claim.state === 'in_progress') {
+    throw new BookingRequestError(
+      409,
+      'Request in progress',
+      'A booking request with this idempotency key is still being processed'
+    );
+  }
+
+  try {
+    const response = await run();
+    await completeIdempotencyKey(userId, idempotencyKey, 200, response);
+    return response;
+  } catch (error) {
+    if (error instanceof BookingRequestError) {
+      await completeIdempotencyKey(userId, idempotencyKey, error.status, error.toJSON());
+    } else {
+      await completeIdempotencyKey(userId, idempotencyKey, 500, {});
+    }
+    throw error;
+  }
+}
+
+async function createAndRunCampaign(
+  request: StartCampaignRequest,
+  requireApproval?: boolean
+): Promise<StartCampaignResponse> {
+  const { chatId, userId, bookingType, candidates, parallelism = 1, idempotencyKey, ...template } = request;
+
+  console.log('Booking campaign request received:', {
+    chatId,
+    userId,
+    bookingType,
+    candidates: candidates?.length,
+    parallelism,
+  });
+
+  if (!chatId || !userId || !bookingType) {
+    throw new BookingRequestError(400, 'Missing required fields', 'chatId, userId and bookingType are required');
+  }
+  if (!Array.isArray(candidates) || candidates.length < 2 || candidates.length > MAX_CAMPAIGN_CANDIDATES) {
+    throw new BookingRequestError(
+      400,
+      'Invalid candidates',
+      `candidates must list between 2 and ${MAX_CAMPAIGN_CANDIDATES} businesses`
+    );
+  }
+  const missing = candidates.findIndex(
+    (candidate) =>
+      !candidate?.businessName ||
+      !candidate?.phoneNumber ||
+      typeof candidate.businessName !== 'string' ||
+      typeof candidate.phoneNumber !== 'string'
+  );
+  if (missing !== -1) {
+    throw new BookingRequestError(
+      400,
+      'Invalid candidates',
+      `candidates[${missing}] needs a businessName and phoneNumber (strings)`
+    );
+  }
+  if (!Number.isInteger(parallelism) || parallelism < 1 || parallelism > MAX_CAMPAIGN_PARALLELISM) {
+    throw new BookingRequestError(400, 'Invalid parallelism', `parallelism must be 1 to ${MAX_CAMPAIGN_PARALLELISM}`);
+  }
+
+  // Catch problems with the shared fields once, rather than once per business
+  const validation = validateBookingDetails({ ...request, ...candidates[0] } as StartBookingRequest);
+  if (!validation.valid) {
+    throw new BookingRequestError(400, validation.error, validation.message);
+  }
+  await verifyChatOwner(chatId, userId);
+
+  // Approved once for all the businesses; known businesses only if every one of them is
+  const preferences = await getUserPreferences(userId);
+  const phoneRegion = getPhoneRegion(preferences);
+  const needsApproval =
+    !!requireApproval &&
+    !(await isCallPreApproved(
+      userId,
+      preferences?.call_approval,
+      candidates.map((candidate) => {
+        const phone = normalizePhoneNumber(candidate.phoneNumber, phoneRegion);
+        return phone.valid ? phone.phone.e164 : candidate.phoneNumber;
+      })
+    ));
+
+  const campaign = await createCampaign(
+    {
+      user_id: userId,
+      chat_id: chatId,
+      booking_type: bookingType,
+      request: { ...template, chatId, userId, bookingType } as CampaignBookingTemplate,
+      candidates: candidates.map(({ businessName, phoneNumber, timeZone }) => ({ businessName, phoneNumber, timeZone })),
+      parallelism,
+    },
+    needsApproval ? 'awaiting_approval' : 'running'
+  );
+
+  console.log('Booking campaign created:', { campaignId: campaign.id, status: campaign.status });
+
+  if (needsApproval) {
+    await showCallApproval(campaign, campaign.id, {
+      kind: 'campaign',
+      status: 'pending',
+      details: previewCampaignDetails(campaign, preferences),
+      candidates: campaign.candidates,
+    });
+    return { success: true, status: 'awaiting_approval', campaignId: campaign.id, calls: [], remaining: candidates.length };
+  }
+
+  return launchCampaign(campaign);
+}
+
+/**
+ * Start a running campaign's first calls
+ *
+ * @param campaign - The campaign, in `running`
+ * @returns The calls started (or scheduled)
+ * @throws BookingRequestError if none of the businesses could be called
+ */
+async function launchCampaign(campaign: BookingCampaign): Promise<StartCampaignResponse> {
+  const calls: NonNullable<StartCampaignResponse['calls']> = [];
+  const errors: string[] = [];
+  for (let started = 0; started < campaign.parallelism; started++) {
+    const call = await callNextCandidate(campaign, errors);
+    if (!call) break;
+    calls.push(call);
+  }
+
+  if (calls.length === 0) {
+    await finishCampaign(campaign.id, 'exhausted');
+    throw new BookingRequestError(400, 'No business could be called', errors.join(' '), { campaignId: campaign.id });
+  }
+
+  const latest = await getCampaign(campaign.id);
+  return {
+    success: true,
+    campaignId: campaign.id,
+    calls,
+    remaining: latest ? latest.candidates.length - latest.next_candidate : 0,
+  };
+}
+
+/**
+ * Call the campaign's next candidate, skipping any that can't be called
+ *
+ * @param campaign - The campaign
+ * @param errors - Collects why candidates were skipped
+ * @returns The call started (or scheduled), or null if no candidates are left
+ */
+async function callNextCandidate(
+  campaign: BookingCampaign,
+  errors: string[] = []
+): Promise<NonNullable<StartCampaignResponse['calls']>[number] | null> {
+  let current = campaign;
+
+  for (;;) {
+    const rank = await claimNextCandidate(current);
+    if (rank === null) {
+      return null;
+    }
+    current = { ...current, next_candidate: rank + 1 };
+
+    const { businessName, phoneNumber, timeZone } = campaign.candidates[rank];
+    const template = campaign.request;
+    const request = {
+      ...template,
+      businessName,
+      phoneNumber,
+      // The campaign moves on to the next business instead of retrying
+      retryPolicy: { maxAttempts: 1 },
+      callWindow: { ...template.callWindow, timeZone: timeZone || template.callWindow?.timeZone },
+      // Different businesses for the same time, on purpose
+      allowDuplicate: true,
+    } as StartBookingRequest;
+
+    try {
+      const { success, ...call } = await createAndCallBooking(request, { campaign: { campaignId: campaign.id, rank } });
+      return { businessName, ...call };
+    } catch (error) {
+      const reason =
+        error instanceof BookingRequestError
+          ? `${error.error}${error.details ? `: ${error.details}` : ''}`
+          : error instanceof Error
+            ? error.message
+            : 'Unknown error';
+      console.error('Skipping campaign candidate:', { campaignId: campaign.id, rank, reason });
+      errors.push(`${businessName}: ${reason}.`);
+    }
+  }
+}
+
+/**
+ * Move a campaign on after one of its calls has ended
+ *
+ * A confirmed booking ends the campaign and posts the summary. Otherwise the
+ * business is settled and the next one is called; once none are left and no
+ * calls are outstanding, the summary says none could take the booking.
+ *
+ * @param booking - The campaign booking, with the call's outcome applied
+ * @returns Whether an update was posted for the assistant to follow up on,
+ *   or null if the outcome should be posted as for any other booking
+ */
+async function advanceCampaign(booking: Booking): Promise<boolean | null> {
+  const campaign = booking.campaign_id ? await getCampaign(booking.campaign_id) : null;
+  if (!campaign) {
+    return null;
+  }
+
+  const confirmed = booking.status === 'completed';
+
+  if (campaign.status !== 'running') {
+    // A second confirmation, or a call the user asked for since: they need to hear about it
+    if (confirmed || booking.call_context) {
+      return null;
+    }
+
+    // Another business took the booking (or the user stopped the campaign): nothing to tell
+    if (OPEN_CAMPAIGN_STATUSES.includes(booking.status) || booking.status === 'awaiting_user') {
+      await settleCampaignBooking(booking, 'cancelled', 'Campaign ended');
+    }
+    return false;
+  }
+
+  if (confirmed) {
+    const finished = await finishCampaign(campaign.id, 'confirmed', booking.id);
+    if (!finished) {
+      return null;
+    }
+
+    await stopCampaignCalls(campaign.id, `Booked at ${getBusinessName(booking)} instead`, booking.id);
+    await postCampaignSummary(finished, await listCampaignBookings(campaign.id));
+    return true;
+  }
+
+  // Busy, no answer, declined, ...: keep any alternatives they offered and try the next business
+  if (RETRYABLE_STATUSES.includes(booking.status)) {
+    await settleCampaignBooking(booking, 'failed', booking.result?.reason || describeUnansweredCall(booking.status));
+  }
+  await callNextCandidate(campaign);
+
+  const bookings = await listCampaignBookings(campaign.id);
+  const latest = await getCampaign(campaign.id);
+  const outstanding = bookings.some((campaignBooking) => OPEN_CAMPAIGN_STATUSES.includes(campaignBooking.status));
+  if (!latest || latest.next_candidate < latest.candidates.length || outstanding) {
+    return false;
+  }
+
+  const exhausted = await finishCampaign(campaign.id, 'exhausted');
+  if (!exhausted) {
+    return false;
+  }
+  await postCampaignSummary(exhausted, bookings);
+  return true;
+}
+
+/**
+ * Cancel an ended campaign's calls that haven't been placed yet
+ *
+ * Calls in progress are left to finish rather than hung up mid-booking; if
+ * one of them confirms too, the user is told and decides which to keep.
+ * Businesses waiting on the user to accept an offered time are dropped.
+ *
+ * @param campaignId - The campaign
+ * @param reason - Why, stored on each cancelled booking
+ * @param except - The booking to leave alone (the confirmed one)
+ */
+async function stopCampaignCalls(campaignId: string, reason: string, except?: string): Promise<void> {
+  const bookings = await listCampaignBookings(campaignId);
+
+  for (const booking of bookings) {
+    if (booking.id === except || booking.status === 'calling') continue;
+    if (!OPEN_CAMPAIGN_STATUSES.includes(booking.status) && booking.status !== 'awaiting_user') continue;
+
+    await settleCampaignBooking(booking, 'cancelled', reason);
+  }
+}
+
+/**
+ * Close a campaign booking that won't be followed up, without telling the user
+ */
+async function settleCampaignBooking(
+  booking: Booking,
+  to: Extract<BookingStatus, 'failed' | 'cancelled'>,
+  reason: string
+): Promise<void> {
+  try {
+    await transitionBooking(booking.id, to, {
+      cause: `campaign:${to}`,
+      details: { campaignId: booking.campaign_id, reason },
+      changes: { result: { ...booking.result, reason }, next_attempt_at: null },
+    });
+  } catch (error) {
+    console.error('Error settling campaign booking:', { bookingId: booking.id, error });
+  }
+}
+
+function describeUnansweredCall(status: BookingStatus): string {
+  switch (status) {
+    case 'busy':
+      return 'Line busy';
+    case 'no_answer':
+      return 'No answer';
+    case 'voicemail':
+      return 'Went to voicemail';
+    default:
+      return status;
+  }
+}
+
+/**
+ * Check the chat exists and belongs to the user
+ *
+ * @throws BookingRequestError (404) if it doesn't
+ */
+async function verifyChatOwner(chatId: string, userId: string): Promise<void> {
+  const supabase = getServerSupabase();
+  const { data: chatExists, error: chatCheckError } = await supabase
+    .from('chats')
+    .select('id')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .single();
+
+  if (chatCheckError || !chatExists) {
+    console.error('Chat not found or access denied:', { chatId, userId });
+    throw new BookingRequestError(404, 'Chat not found or access denied');
+  }
+}
+
+async function createAndCallBooking(
+  request: StartBookingRequest,
+  {
+    campaign,
+    requireApproval,
+  }: { campaign?: { campaignId: string; rank: number }; requireApproval?: boolean } = {}
+): Promise<StartBookingResponse> {
+  const { chatId, userId, bookingType, retryPolicy, callWindow, callAt } = request;
+
+  console.log('Booking start request received:', {
+    chatId,
+    userId,
+    bookingType,
+    businessName: request.businessName,
+    phoneNumber: request.phoneNumber?.replace(/\d(?=\d{4})/g, '*'), // Masked phone
+    customerName: request.customerName,
+  });
+
+  // Validate required fields
+  if (!chatId || !userId || !bookingType) {
+    console.error('Missing required fields:', {
+      chatId: !!chatId,
+      userId: !!userId,
+      bookingType: !!bookingType,
+    });
+    throw new BookingRequestError(400, 'Missing required fields', 'chatId, userId and bookingType are required');
+  }
+
+  // Validate the fields for this booking type (restaurant, hotel or taxi)
+  const validation = validateBookingDetails(request);
+  if (!validation.valid) {
+    console.error('Invalid booking details:', validation.message);
+    throw new BookingRequestError(400, validation.error, validation.message);
+  }
+  let { details } = validation;
+
+  // Normalise the phone number to E.164; national formats use the user's region
+  const preferences = await getUserPreferences(userId);
+  const phone = normalizePhoneNumber(details.phoneNumber, getPhoneRegion(preferences));
+  if (!phone.valid) {
+    console.error('Invalid phone number:', phone.error);
+    throw new BookingRequestError(400, 'Invalid phone number', phone.error);
+  }
+  details = {
+    ...details,
+    phoneNumber: phone.phone.e164,
+    phoneNumberRaw: phone.phone.raw,
+    phoneNumberType: phone.phone.type,
+  };
+
+  // Work out when to call: not before callAt, and within the business's calling hours
+  const window = resolveCallWindow(bookingType, callWindow);
+  const windowError = window
+    ? validateCallWindow(window)
+    : callWindow?.notBefore || callWindow?.notAfter
+      ? 'timeZone is required to set calling hours'
+      : null;
+  if (windowError) {
+    throw new BookingRequestError(400, 'Invalid call window', windowError);
+  }
+
+  // Pin the booking's times to the business's time zone, or else the user's
+  const now = new Date();
+  const timeZone = resolveBookingTimeZone(callWindow, preferences, window);
+
+  const normalized = normalizeBookingDateTimes(details, timeZone, now);
+  if (!normalized.valid) {
+    console.error('Invalid booking time:', normalized.message);
+    throw new BookingRequestError(400, normalized.error, normalized.message);
+  }
+  details = normalized.details;
+
+  let earliestCall = now;
+  if (callAt) {
+    const requested = typeof callAt === 'string' ? parseDateTimeInZone(callAt, timeZone) : null;
+    if (!requested) {
+      throw new BookingRequestError(
+        400,
+        'Invalid call time',
+        'callAt must be an ISO 8601 date/time or YYYY-MM-DD HH:MM'
+      );
+    }
+    earliestCall = requested > now ? requested : now;
+  }
+
+  const callTime = getNextCallTime(window, earliestCall);
+  const bookingTime = getBookingDeadline(details, timeZone);
+  if (bookingTime && callTime >= bookingTime) {
+    throw new BookingRequestError(
+      400,
+      'Call would be too late',
+      `The business can't be called before the booking time (earliest call: ${describeCallTime(callTime, window)})`
+    );
+  }
+
+  // Verify chat exists and belongs to user
+  await verifyChatOwner(chatId, userId);
+
+  // The assistant may ask twice for the same booking; make sure the user meant to
+  if (!request.allowDuplicate) {
+    const duplicate = await findDuplicateBooking(userId, details);
+    if (duplicate) {
+      console.warn('Duplicate booking request:', { userId, existingBookingId: duplicate.id });
+      throw new BookingRequestError(
+        409,
+        'Duplicate booking',
+        `There is already a ${duplicate.status} booking at ${getBusinessName(duplicate)} for ${describeBookingTime(duplicate.details)}. Set allowDuplicate to book again anyway.`,
+        { duplicateBookingId: duplicate.id }
+      );
+    }
+  }
+
+  const needsApproval =
+    !!requireApproval && !(await isCallPreApproved(userId, preferences?.call_approval, [details.phoneNumber]));
+
+  // Create booking record with 'initiated' status
+  const booking = await createBooking(
+    {
+      user_id: userId,
+      chat_id: chatId,
+      booking_type: bookingType,
+      details,
+      retry_policy: resolveRetryPolicy(bookingType, retryPolicy),
+      call_window: window,
+      campaign_id: campaign?.campaignId,
+      campaign_rank: campaign?.rank,
+    },
+    'booking_requested'
+  );
+
+  console.log('Booking record created:', booking.id);
+
+  return launchBooking(booking, {
+    callTime,
+    callAt: earliestCall > now ? earliestCall : null,
+    needsApproval,
+    scheduleCause: callAt ? 'call_time_requested' : 'outside_call_window',
+  });
+}
+
+/**
+ * Send a new booking on its way: wait for the user's approval, schedule the call, or place it now
+ *
+ * @param booking - The booking, just created
+ * @param options - When it can first be called, the time the caller asked for (kept while
+ *   waiting for approval), whether the user approves it first, and why it's scheduled if it is
+ * @returns The call ID, when the call is scheduled for, or that it's awaiting approval
+ */
+async function launchBooking(
+  booking: Booking,
+  {
+    callTime,
+    callAt,
+    needsApproval,
+    scheduleCause,
+  }: { callTime: Date; callAt: Date | null; needsApproval: boolean; scheduleCause: string }
+): Promise<StartBookingResponse> {
+  const { details } = booking;
+  const window = booking.call_window || null;
+
+  // Nothing is called until the user approves; callAt is kept for when they do
+  if (needsApproval) {
+    const pending = await transitionBooking(booking.id, 'awaiting_approval', {
+      cause: 'approval_requested',
+      changes: { next_attempt_at: callAt ? callAt.toISOString() : null },
+    });
+    await showCallApproval(pending, pending.id, {
+      kind: 'booking',
+      status: 'pending',
+      details,
+      followUp: booking.follow_up_action || undefined,
+    });
+
+    return {
+      success: true,
+      status: 'awaiting_approval',
+      bookingId: booking.id,
+      bookingTime: describeBookingTime(details),
+    };
+  }
+
+  // Too early to call: leave it to the dispatcher
+  if (callTime.getTime() - Date.now() > SCHEDULE_THRESHOLD_SECONDS * 1000) {
+    await scheduleCall(booking, callTime, scheduleCause);
+
+    return {
+      success: true,
+      status: 'scheduled',
+      bookingId: booking.id,
+      scheduledFor: callTime.toISOString(),
+      scheduledForLocal: describeCallTime(callTime, window),
+      bookingTime: describeBookingTime(details),
+    };
+  }
+
+  // Start the call through the MCP server
+  const callId = await placeFirstCall(booking);
+
+  return {
+    success: true,
+    callId,
+    bookingId: booking.id,
+    bookingTime: describeBookingTime(details),
+  };
+}
+
+/**
+ * The booking a cancellation or change is for, checked it belongs to the user
+ *
+ * @throws BookingRequestError if it isn't found, is itself a follow-up call, or already has one going
+ */
+async function findOriginalBooking(bookingId: string, chatId: string, userId: string): Promise<Booking> {
+  if (!bookingId || !chatId || !userId) {
+    throw new BookingRequestError(400, 'Missing required fields', 'bookingId, chatId and userId are required');
+  }
+  await verifyChatOwner(chatId, userId);
+
+  // Any of the user's bookings, not just this chat's
+  const original = await getBooking(bookingId, { userId });
+  if (!original) {
+    throw new BookingRequestError(404, 'Booking not found');
+  }
+  if (original.follow_up_of) {
+    throw new BookingRequestError(
+      400,
+      'Not an original booking',
+      `Booking ${original.id} is a call about booking ${original.follow_up_of}; use that booking instead`
+    );
+  }
+
+  const open = await findOpenFollowUp(original.id);
+  if (open) {
+    throw new BookingRequestError(
+      409,
+      'Follow-up call in progress',
+      `A call to ${open.follow_up_action === 'cancel' ? 'cancel' : 'change'} this booking is already ${open.status.replace(/_/g, ' ')}`,
+      { followUpBookingId: open.id }
+    );
+  }
+
+  return original;
+}
+
+async function cancelOrCallBack(
+  { bookingId, chatId, userId, reason }: CancelBookingRequest,
+  requireApproval?: boolean
+): Promise<FollowUpCallResponse> {
+  console.log('Booking cancellation requested:', { bookingId, chatId, userId });
+
+  const original = await findOriginalBooking(bookingId, chatId, userId);
+
+  // Nothing agreed with the business yet: no need to call
+  if (UNCONFIRMED_BOOKING_STATUSES.includes(original.status)) {
+    try {
+      await transitionBooking(original.id, 'cancelled', {
+        cause: 'user_cancelled',
+        details: { chatId, reason },
+        changes: { result: { ...original.result, reason: 'Cancelled by user' }, next_attempt_at: null },
+      });
+    } catch (error) {
+      if (error instanceof InvalidBookingTransitionError) {
+        throw new BookingRequestError(409, 'Booking changed', error.message);
+      }
+      throw error;
+    }
+    if (original.status === 'awaiting_approval') {
+      await showCallApproval(original, original.id, { kind: 'booking', status: 'cancelled', details: original.details });
+    }
+
+    return {
+      success: true,
+      status: 'cancelled',
+      bookingId: original.id,
+      originalBookingId: original.id,
+      bookingTime: describeBookingTime(original.details),
+    };
+  }
+
+  if (original.status !== 'completed') {
+    throw new BookingRequestError(
+      409,
+      'Booking cannot be cancelled now',
+      original.status === 'calling'
+        ? 'The business is being called about it right now; wait for the call to end'
+        : `Booking is ${original.status.replace(/_/g, ' ')}`
+    );
+  }
+
+  return createFollowUpCall(original, 'cancel', getBookedDetails(original), {
+    chatId,
+    requireApproval,
+    reason,
+  });
+}
+
+async function changeByCallingBack(
+  { bookingId, chatId, userId, changes }: ModifyBookingRequest,
+  requireApproval?: boolean
+): Promise<FollowUpCallResponse> {
+  console.log('Booking change requested:', { bookingId, chatId, userId, fields: Object.keys(changes || {}) });
+
+  const original = await findOriginalBooking(bookingId, chatId, userId);
+  if (original.status !== 'completed') {
+    throw new BookingRequestError(
+      409,
+      'Booking is not confirmed',
+      `Booking is ${original.status.replace(/_/g, ' ')}; only bookings the business confirmed can be changed by calling back`
+    );
+  }
+
+  // Same business, same number: only the booking itself changes
+  const { phoneNumber: _phoneNumber, ...edits } = pickBookingEdits(changes as Record<string, unknown>);
+  const details = await applyBookingEdits({ ...original, details: getBookedDetails(original) }, edits);
+
+  return createFollowUpCall(original, 'modify', details, { chatId, requireApproval });
+}
+
+/**
+ * Create the follow-up call that cancels or changes a confirmed booking, and start it
+ *
+ * @param original - The confirmed booking
+ * @param action - Cancel it, or change it to `details`
+ * @param details - The booking as it should be after the call
+ * @param options - The chat asking (it gets the outcome), approval and the reason for a cancellation
+ */
+async function createFollowUpCall(
+  original: Booking,
+  action: FollowUpAction,
+  details: BookingDetails,
+  { chatId, requireApproval, reason }: { chatId: string; requireApproval?: boolean; reason?: string }
+): Promise<FollowUpCallResponse> {
+  const now = new Date();
+  const window = original.call_window || null;
+  const callTime = getNextCallTime(window, now);
+
+  // Changing or cancelling only makes sense before the booking (old or new) starts
+  const timeZone = details.timeZone || original.details.timeZone || 'UTC';
+  const deadline = [getBookingDeadline(getBookedDetails(original), timeZone), getBookingDeadline(details, timeZone)]
+    .filter((time): time is Date => !!time)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+  if (deadline && callTime >= deadline) {
+    throw new BookingRequestError(
+      400,
+      'Call would be too late',
+      `The business can't be called before the booking time (earliest call: ${describeCallTime(callTime, window)})`
+    );
+  }
+
+  const preferences = await getUserPreferences(original.user_id);
+  const needsApproval =
+    !!requireApproval &&
+    !(await isCallPreApproved(original.user_id, preferences?.call_approval, [details.phoneNumber]));
+
+  const followUp = await createBooking(
+    {
+      user_id: original.user_id,
+      chat_id: chatId,
+      booking_type: original.booking_type,
+      details,
+      retry_policy: original.retry_policy || resolveRetryPolicy(original.booking_type),
+      call_window: window,
+      call_context: buildFollowUpContext(original, action, details, reason),
+      follow_up_of: original.id,
+      follow_up_action: action,
+    },
+    `${action}_requested`
+  );
+  await recordBookingEvent(original.id, original.status, original.status, `follow_up:${action}_requested`, {
+    followUpBookingId: followUp.id,
+  });
+
+  console.log('Follow-up call created:', { bookingId: original.id, followUpBookingId: followUp.id, action });
+
+  const launched = await launchBooking(followUp, {
+    callTime,
+    callAt: null,
+    needsApproval,
+    scheduleCause: 'outside_call_window',
+  });
+  return { ...launched, originalBookingId: original.id };
+}
+
+/**
+ * Apply a follow-up call's outcome to the booking it was about
+ *
+ * If the business agreed, the original booking is cancelled, or takes the new
+ * details (with the new confirmation number, if any). Otherwise it stays as
+ * it was. Either way the outcome goes in the original's history.
+ *
+ * @param followUp - The follow-up booking, with its call's outcome applied
+ */
+async function applyFollowUpOutcome(followUp: Booking): Promise<void> {
+  const original = followUp.follow_up_of ? await getBooking(followUp.follow_up_of) : null;
+  if (!original) {
+    return;
+  }
+
+  const action = followUp.follow_up_action;
+  const outcome = {
+    followUpBookingId: followUp.id,
+    callId: followUp.call_id,
+    confirmed: followUp.result?.confirmed,
+    reason: followUp.result?.reason,
+  };
+
+  try {
+    if (!isFollowUpAgreed(followUp)) {
+      await recordBookingEvent(original.id, original.status, original.status, `follow_up:${action}_failed`, outcome);
+      return;
+    }
+
+    if (action === 'cancel') {
+      await transitionBooking(original.id, 'cancelled', {
+        cause: 'follow_up:cancelled',
+        details: outcome,
+        changes: { result: { ...original.result, reason: 'Cancelled with the business' } },
+      });
+      return;
+    }
+
+    const previous = getBookedDetails(original);
+    const details = getBookedDetails(followUp);
+    const result: BookingResult = {
+      ...original.result,
+      bookedDateTime: getBookingDateTime(details),
+      bookedUnderName: followUp.result?.bookedUnderName || original.result?.bookedUnderName,
+      confirmationNumber: followUp.result?.confirmationNumber || original.result?.confirmationNumber,
+    };
+
+    // Only while it's still booked; the user may have cancelled it meanwhile
+    const supabase = getServerSupabase();
+    const { data: updated, error } = await supabase
+      .from('bookings')
+      .update({ details, result })
+      .eq('id', original.id)
+      .eq('status', 'completed')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!updated) {
+      console.warn('Original booking no longer confirmed; not applying change:', { bookingId: original.id });
+      return;
+    }
+
+    await recordBookingEvent(original.id, 'completed', 'completed', 'follow_up:modified', {
+      ...outcome,
+      previous: getBookingDateTime(previous),
+      updated: getBookingDateTime(details),
+    });
+  } catch (error) {
+    console.error('Error applying follow-up outcome:', { bookingId: original.id, error });
+  }
+}
+
+/**
+ * Place a booking's first call, failing the booking if the call can't be started
+ *
+ * @returns The call ID
+ */
+async function placeFirstCall(booking: Booking): Promise<string> {
+  try {
+    const { callId } = await placeBookingCall(booking, 'call_started');
+    return callId;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    await transitionBooking(booking.id, 'failed', {
+      cause: 'call_start_failed',
+      details: { error: reason },
+      changes: { result: { reason } },
+    }).catch((transitionError) => console.error('Error marking booking as failed:', transitionError));
+    throw error;
+  }
+}
+
+async function respondForBooking(
+  bookingId: string,
+  userId: string,
+  action: CallApprovalRequest['action'],
+  changes: CallApprovalRequest['changes']
+): Promise<CallApprovalResponse> {
+  const booking = await getBooking(bookingId, { userId });
+  if (!booking) {
+    throw new BookingRequestError(404, 'Booking not found');
+  }
+  if (booking.status !== 'awaiting_approval') {
+    throw new BookingRequestError(409, 'Not waiting for approval', `Booking is ${booking.status}`);
+  }
+
+  if (action === 'cancel') {
+    await transitionBooking(booking.id, 'cancelled', {
+      cause: 'approval_declined',
+      changes: { result: { reason: 'Cancelled before calling' }, next_attempt_at: null },
+    });
+    await showCallApproval(booking, booking.id, {
+      kind: 'booking',
+      status: 'cancelled',
+      details: booking.details,
+      followUp: booking.follow_up_action || undefined,
+    });
+    return { success: true, status: 'cancelled' };
+  }
+
+  if (action === 'edit') {
+    if (booking.follow_up_action === 'cancel') {
+      throw new BookingRequestError(400, 'Nothing to edit', 'A call to cancel a booking has no details to change');
+    }
+
+    // A change to an existing booking stays with the same business
+    const { phoneNumber, ...otherEdits } = pickBookingEdits(changes as Record<string, unknown>);
+    const edits = booking.follow_up_of || !phoneNumber ? otherEdits : { ...otherEdits, phoneNumber };
+    const details = await applyBookingEdits(booking, edits);
+    const original = booking.follow_up_of ? await getBooking(booking.follow_up_of) : null;
+    await transitionBooking(booking.id, 'awaiting_approval', {
+      cause: 'approval_edited',
+      details: { changed: Object.keys(edits) },
+      changes: { details, ...(original ? { call_context: buildFollowUpContext(original, 'modify', details) } : {}) },
+    });
+    await showCallApproval(booking, booking.id, {
+      kind: 'booking',
+      status: 'pending',
+      details,
+      followUp: booking.follow_up_action || undefined,
+    });
+    return { success: true, status: 'awaiting_approval' };
+  }
+
+  // Approved: call now, or as soon as the business can be called (and not before callAt)
+  const { details } = booking;
+  const now = new Date();
+  const requested = booking.next_attempt_at ? new Date(booking.next_attempt_at) : now;
+  const window = booking.call_window || null;
+  const callTime = getNextCallTime(window, requested > now ? requested : now);
+  const bookingTime = getBookingDeadline(details, details.timeZone || 'UTC');
+  if (bookingTime && callTime >= bookingTime) {
+    throw new BookingRequestError(
+      409,
+      'Call would be too late',
+      `The business can't be called before the booking time (earliest call: ${describeCallTime(callTime, window)}). Edit the time or cancel.`
+    );
+  }
+
+  const later = callTime.getTime() - now.getTime() > SCHEDULE_THRESHOLD_SECONDS * 1000;
+  // Moving out of awaiting_approval claims the approval, so a double click calls once
+  const approved = await transitionBooking(booking.id, 'scheduled', {
+    cause: 'call_approved',
+    details: later ? { nextAttemptAt: callTime.toISOString(), callWindow: window } : undefined,
+    changes: { next_attempt_at: later ? callTime.toISOString() : null },
+  });
+  await showCallApproval(booking, booking.id, {
+    kind: 'booking',
+    status: 'approved',
+    details,
+    followUp: booking.follow_up_action || undefined,
+  });
+
+  if (later) {
+    return {
+      success: true,
+      status: 'scheduled',
+      scheduledFor: callTime.toISOString(),
+      scheduledForLocal: describeCallTime(callTime, window),
+    };
+  }
+
+  const callId = await placeFirstCall(approved);
+  return { success: true, status: 'calling', callId };
+}
+
+async function respondForCampaign(
+  campaignId: string,
+  userId: string,
+  action: CallApprovalRequest['action'],
+  changes: CallApprovalRequest['changes']
+): Promise<CallApprovalResponse> {
+  const campaign = await getCampaign(campaignId);
+  if (!campaign || campaign.user_id !== userId) {
+    throw new BookingRequestError(404, 'Campaign not found');
+  }
+  if (campaign.status !== 'awaiting_approval') {
+    throw new BookingRequestError(409, 'Not waiting for approval', `Campaign is ${campaign.status}`);
+  }
+
+  const notWaiting = () => new BookingRequestError(409, 'Not waiting for approval');
+  const preferences = await getUserPreferences(userId);
+
+  if (action === 'cancel') {
+    const cancelled = await updatePendingCampaign(campaign.id, { status: 'cancelled' });
+    if (!cancelled) throw notWaiting();
+    await showCallApproval(campaign, campaign.id, {
+      kind: 'campaign',
+      status: 'cancelled',
+      details: previewCampaignDetails(campaign, preferences),
+      candidates: campaign.candidates,
+    });
+    return { success: true, status: 'cancelled' };
+  }
+
+  if (action === 'edit') {
+    // Each business keeps its own number
+    const { phoneNumber: _phoneNumber, ...edits } = pickBookingEdits(changes as Record<string, unknown>);
+    if (Object.keys(edits).length === 0) {
+      throw new BookingRequestError(400, 'No changes', 'changes must include at least one booking field to edit');
+    }
+    const request = { ...campaign.request, ...edits } as CampaignBookingTemplate;
+    const validation = validateBookingDetails({ ...request, ...campaign.candidates[0] });
+    if (!validation.valid) {
+      throw new BookingRequestError(400, validation.error, validation.message);
+    }
+
+    const edited = await updatePendingCampaign(campaign.id, { request });
+    if (!edited) throw notWaiting();
+    await showCallApproval(edited, edited.id, {
+      kind: 'campaign',
+      status: 'pending',
+      details: previewCampaignDetails(edited, preferences),
+      candidates: edited.candidates,
+    });
+    return { success: true, status: 'awaiting_approval' };
+  }
+
+  const running = await updatePendingCampaign(campaign.id, { status: 'running' });
+  if (!running) throw notWaiting();
+  await showCallApproval(running, running.id, {
+    kind: 'campaign',
+    status: 'approved',
+    details: previewCampaignDetails(running, preferences),
+    candidates: running.candidates,
+  });
+
+  const { calls } = await launchCampaign(running);
+  const [first] = calls || [];
+  return {
+    success: true,
+    status: 'running',
+    callId: first?.callId,
+    scheduledFor: first?.scheduledFor,
+    scheduledForLocal: first?.scheduledForLocal,
+  };
+}
+
+/**
+ * A booking's details with the user's edits applied, checked as when it was requested
+ *
+ * @throws BookingRequestError if there are no edits or the result isn't a valid booking
+ */
+async function applyBookingEdits(booking: Booking, edits: BookingEdits): Promise<BookingDetails> {
+  if (Object.keys(edits).length === 0) {
+    throw new BookingRequestError(400, 'No changes', 'changes must include at least one booking field to edit');
+  }
+
+  const validation = validateBookingDetails({ ...booking.details, ...edits });
+  if (!validation.valid) {
+    throw new BookingRequestError(400, validation.error, validation.message);
+  }
+
+  const preferences = await getUserPreferences(booking.user_id);
+  const phone = normalizePhoneNumber(validation.details.phoneNumber, getPhoneRegion(preferences));
+  if (!phone.valid) {
+    throw new BookingRequestError(400, 'Invalid phone number', phone.error);
+  }
+
+  const normalized = normalizeBookingDateTimes(
+    {
+      ...validation.details,
+      phoneNumber: phone.phone.e164,
+      phoneNumberRaw: phone.phone.raw,
+      phoneNumberType: phone.phone.type,
+    },
+    booking.details.timeZone || booking.call_window?.timeZone || 'UTC'
+  );
+  if (!normalized.valid) {
+    throw new BookingRequestError(400, normalized.error, normalized.message);
+  }
+
+  return normalized.details;
+}
+
+/**
+ * A campaign's booking as it will be asked of its first business, for the approval card
+ */
+function previewCampaignDetails(
+  campaign: BookingCampaign,
+  preferences: Pick<User, 'time_zone'> | null
+): BookingDetails {
+  const [first] = campaign.candidates;
+  const validation = validateBookingDetails({ ...campaign.request, ...first });
+  if (!validation.valid) {
+    return { ...campaign.request, ...first } as BookingDetails;
+  }
+
+  const callWindow = { ...campaign.request.callWindow, timeZone: first.timeZone || campaign.request.callWindow?.timeZone };
+  const timeZone = resolveBookingTimeZone(
+    callWindow,
+    preferences,
+    resolveCallWindow(campaign.booking_type, callWindow)
+  );
+  const normalized = normalizeBookingDateTimes(validation.details, timeZone);
+  return normalized.valid ? normalized.details : validation.details;
+}
+
+/**
+ * Region for reading phone numbers given without a country code: the user's, or the default
+ */
+function getPhoneRegion(preferences: Pick<User, 'region' | 'locale'> | null): string | undefined {
+  return preferences?.region || regionFromLocale(preferences?.locale) || process.env.DEFAULT_PHONE_REGION;
+}
+
+/**
+ * The time zone a booking's times are read in: the business's, or else the user's
+ *
+ * Falls back to UTC, with a warning, when neither is known (or the user's
+ * isn't a valid zone): times are then read as UTC and calls aren't restricted.
+ */
+function resolveBookingTimeZone(
+  callWindow: Partial<CallWindow> | undefined,
+  preferences: Pick<User, 'time_zone'> | null,
+  window: CallWindow | null
+): string {
+  if (callWindow?.timeZone) {
+    return callWindow.timeZone;
+  }
+
+  const userTimeZone = preferences?.time_zone;
+  if (userTimeZone && isValidTimeZone(userTimeZone)) {
+    return userTimeZone;
+  }
+  if (userTimeZone) {
+    console.warn('Ignoring invalid user time zone:', userTimeZone);
+  }
+
+  if (window?.timeZone) {
+    return window.timeZone;
+  }
+
+  console.warn('No business or user time zone for booking; reading its times as UTC');
+  return 'UTC';
+}
+
+/**
+ * The offered time matching a choice, compared to the minute in the booking's time zone
+ */
+function findOfferedTime(alternatives: string[], choice: string, timeZone: string): string | undefined {
+  const exact = alternatives.find((time) => time === choice);
+  if (exact) {
+    return exact;
+  }
+
+  const chosen = parseDateTimeInZone(choice, timeZone);
+  if (!chosen) {
+    return undefined;
+  }
+  return alternatives.find((time) => {
+    const offered = parseDateTimeInZone(time, timeZone);
+    return !!offered && Math.abs(offered.getTime() - chosen.getTime()) < 60 * 1000;
+  });
+}
+
+/**
+ * Mark the choice on the booking update that offered the alternatives, so it isn't offered again
+ */
+async function markAlternativeChosen(booking: Booking, chosen: string): Promise<void> {
+  const supabase = getServerSupabase();
+  const { data: messages, error } = await supabase
+    .from('messages')
+    .select('id, metadata')
+    .eq('chat_id', booking.chat_id)
+    .eq('metadata->>alternativesFor', booking.id)
+    .is('metadata->>selectedAlternative', null);
+
+  if (error) {
+    console.error('Error fetching alternatives message:', error);
+    return;
+  }
+
+  for (const message of messages || []) {
+    const { error: updateError } = await supabase
+      .from('messages')
+      .update({ metadata: { ...message.metadata, selectedAlternative: chosen } })
+      .eq('id', message.id);
+    if (updateError) {
+      console.error('Error marking alternative as chosen:', updateError);
+    }
+  }
+}
+
+/**
+ * Progress for a call that has finished, with how it ended
+ */
+function endedProgress(booking: Booking, outcome: string): CallProgress {
+  return {
+    stage: 'ended',
+    detail: outcome.replace(/[-_]/g, ' '),
+    attemptNumber: booking.attempt_count,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * A call time in the business's local time, e.g. 'Sat, Feb 15, 11:00 AM (Europe/London)'
+ */
+function describeCallTime(callTime: Date, window: CallWindow | null): string {
+  return window
+    ? `${formatInTimeZone(callTime, window.timeZone)} (${window.timeZone})`
+    : callTime.toISOString();
+}
+
+/**
+ * Escape `%`, `_` and `\\` so user input matches literally in an ILIKE pattern
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * When the booking is for, in its time zone, e.g. 'Sat, Feb 15, 7:30 PM (Europe/London)'
+ */
+function describeBookingTime(details: BookingDetails): string {
+  const value = getBookingDateTime(details) || '';
+  const formatted = formatBookingTime(value, details.timeZone);
+  return details.timeZone ? `${formatted} (${details.timeZone})` : formatted;
+}
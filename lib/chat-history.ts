@@ -0,0 +1,152 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { LLMProvider } from '@/lib/llm';
+import { getConversationContent } from '@/lib/booking-updates';
+import { Message } from '@/types';
+
+// Most recent stored messages considered when rebuilding a conversation
+const HISTORY_MESSAGE_LIMIT = 100;
+
+// Per-message and overall size caps for the condensed history
+const MAX_MESSAGE_CHARS = 600;
+const MAX_HISTORY_CHARS = 16000;
+
+export interface RebuildResult {
+  conversationId: string;
+  previousConversationId: string | null;
+  /** Stored messages included in the seed */
+  seededMessages: number;
+}
+
+/**
+ * Replace a chat's provider conversation with a new one seeded from the messages table
+ *
+ * Used when the OpenAI thread in `chats.openai_thread_id` was deleted or has
+ * expired, and by the admin resync route. The new conversation gets a single
+ * condensed transcript of the chat (booking updates included), so the
+ * assistant keeps its context.
+ *
+ * @param provider - The chat's LLM provider (must keep history on its side)
+ * @param chatId - The chat to rebuild
+ * @param excludeMessageId - A message to leave out, e.g. the one about to be answered
+ */
+export async function rebuildConversation(
+  provider: LLMProvider,
+  chatId: string,
+  excludeMessageId?: string
+): Promise<RebuildResult> {
+  if (provider.conversationStore !== 'provider') {
+    throw new Error(
+      `The ${provider.name} provider reads history from the messages table; nothing to rebuild`
+    );
+  }
+
+  const supabase = getServerSupabase();
+  const { data: chat, error: chatError } = await supabase
+    .from('chats')
+    .select('openai_thread_id')
+    .eq('id', chatId)
+    .single();
+
+  if (chatError) {
+    console.error('Error fetching chat:', chatError);
+    throw chatError;
+  }
+
+  const history = (await getStoredHistory(chatId)).filter(
+    (message) => message.id !== excludeMessageId
+  );
+  const { text, count } = condenseHistory(history);
+
+  const conversationId = await provider.createConversation(chatId);
+  if (text) {
+    await provider.appendMessage(conversationId, { role: 'user', content: text });
+  }
+
+  const { error: updateError } = await supabase
+    .from('chats')
+    .update({ openai_thread_id: conversationId })
+    .eq('id', chatId);
+
+  if (updateError) {
+    console.error('Error saving thread ID:', updateError);
+    throw updateError;
+  }
+
+  console.log('Rebuilt conversation for chat:', {
+    chatId,
+    previousConversationId: chat?.openai_thread_id || null,
+    conversationId,
+    seededMessages: count,
+  });
+
+  return {
+    conversationId,
+    previousConversationId: chat?.openai_thread_id || null,
+    seededMessages: count,
+  };
+}
+
+/**
+ * Stored messages that are part of the conversation, oldest first
+ *
+ * Messages still waiting in the chat's queue are left out; they're added to
+ * the conversation when they're answered.
+ */
+async function getStoredHistory(chatId: string): Promise<Message[]> {
+  const supabase = getServerSupabase();
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_MESSAGE_LIMIT);
+
+  if (error) {
+    console.error('Error loading chat history:', error);
+    throw error;
+  }
+
+  return ((data || []) as Message[])
+    .filter((message) => message.metadata?.queue_status !== 'pending')
+    .reverse();
+}
+
+/**
+ * Condense stored messages into one transcript, keeping the most recent
+ * messages when the history is too long
+ */
+function condenseHistory(messages: Message[]): { text: string; count: number } {
+  const lines: string[] = [];
+  let length = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    const speaker =
+      message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'System';
+
+    let content = getConversationContent(message).trim();
+    if (content.length > MAX_MESSAGE_CHARS) {
+      content = `${content.slice(0, MAX_MESSAGE_CHARS)}…`;
+    }
+
+    const line = `${speaker}: ${content}`;
+    if (length + line.length > MAX_HISTORY_CHARS) break;
+
+    lines.unshift(line);
+    length += line.length;
+  }
+
+  if (lines.length === 0) {
+    return { text: '', count: 0 };
+  }
+
+  const omitted = messages.length - lines.length;
+  const header = [
+    '[Conversation history: restored by the app because the previous thread was lost. Not written by the user; do not reply to it.]',
+    omitted > 0 ? `(${omitted} older messages omitted)` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return { text: `${header}\n\n${lines.join('\n\n')}`, count: lines.length };
+}
@@ -0,0 +1,273 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { ChatJob } from '@/types';
+
+// Attempts per job before giving up
+export const MAX_JOB_ATTEMPTS = 3;
+
+// Delay before the first retry; doubles with every attempt
+const RETRY_BASE_DELAY_SECONDS = 30;
+
+/**
+ * Queue a message for an assistant reply
+ *
+ * @param chatId - The chat the message belongs to
+ * @param userId - The chat's user
+ * @param messageId - The saved user message, or a system message with a booking update
+ * @returns The queued job
+ */
+export async function enqueueChatJob(
+  chatId: string,
+  userId: string,
+  messageId: string
+): Promise<ChatJob> {
+  const supabase = getServerSupabase();
+  const { data: job, error } = await supabase
+    .from('chat_jobs')
+    .insert({
+      chat_id: chatId,
+      user_id: userId,
+      message_id: messageId,
+      status: 'queued',
+      max_attempts: MAX_JOB_ATTEMPTS,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error enqueuing chat job:', error);
+    throw error;
+  }
+
+  return job as ChatJob;
+}
+
+/**
+ * Position of a job in its chat's queue (1 = next to run)
+ */
+export async function getQueuePosition(job: ChatJob): Promise<number> {
+  const supabase = getServerSupabase();
+  const { count, error } = await supabase
+    .from('chat_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('chat_id', job.chat_id)
+    .in('status', ['queued', 'processing'])
+    .lte('created_at', job.created_at);
+
+  if (error) {
+    console.error('Error fetching queue position:', error);
+    throw error;
+  }
+
+  return count || 1;
+}
+
+/**
+ * Take the chat's next job, if it is due
+ *
+ * Jobs run strictly in order: if the oldest queued job is waiting for a retry,
+ * later jobs wait too. Call while holding the chat's run lock.
+ *
+ * @param chatId - The chat to take a job from
+ * @param lockSeconds - How long the job may run before it's considered abandoned
+ * @returns The claimed job, or null if nothing is due
+ */
+export async function claimNextJob(chatId: string, lockSeconds: number): Promise<ChatJob | null> {
+  const supabase = getServerSupabase();
+  const { data: next, error } = await supabase
+    .from('chat_jobs')
+    .select('*')
+    .eq('chat_id', chatId)
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching next chat job:', error);
+    throw error;
+  }
+
+  if (!next || new Date(next.run_after) > new Date()) {
+    return null;
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('chat_jobs')
+    .update({
+      status: 'processing',
+      attempts: next.attempts + 1,
+      locked_until: new Date(Date.now() + lockSeconds * 1000).toISOString(),
+    })
+    .eq('id', next.id)
+    .eq('status', 'queued')
+    .select()
+    .maybeSingle();
+
+  if (claimError) {
+    console.error('Error claiming chat job:', claimError);
+    throw claimError;
+  }
+
+  return (claimed as ChatJob) || null;
+}
+
+/**
+ * Mark a job as finished
+ */
+export async function completeJob(
+  job: ChatJob,
+  status: 'completed' | 'cancelled' = 'completed'
+): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase
+    .from('chat_jobs')
+    .update({ status, locked_until: null })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('Error completing chat job:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a failed attempt, scheduling a retry with exponential backoff
+ *
+ * @returns 'retrying' if the job will run again, 'failed' if it gave up
+ */
+export async function failJob(job: ChatJob, reason: string): Promise<'retrying' | 'failed'> {
+  const supabase = getServerSupabase();
+  const givingUp = job.attempts >= job.max_attempts;
+  const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1);
+
+  const { error } = await supabase
+    .from('chat_jobs')
+    .update({
+      status: givingUp ? 'failed' : 'queued',
+      last_error: reason,
+      locked_until: null,
+      run_after: givingUp ? job.run_after : new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('Error recording chat job failure:', error);
+    throw error;
+  }
+
+  return givingUp ? 'failed' : 'retrying';
+}
+
+/**
+ * Put jobs whose worker died mid-run back in the queue
+ *
+ * A job that has already used all its attempts fails instead, so a message
+ * that crashes the worker every time doesn't loop forever.
+ *
+ * @returns Number of jobs requeued, and the jobs that failed
+ */
+export async function requeueAbandonedJobs(): Promise<{ requeued: number; failed: ChatJob[] }> {
+  const supabase = getServerSupabase();
+  const now = new Date().toISOString();
+  const { data: abandoned, error } = await supabase
+    .from('chat_jobs')
+    .select('*')
+    .eq('status', 'processing')
+    .lt('locked_until', now);
+
+  if (error) {
+    console.error('Error fetching abandoned chat jobs:', error);
+    throw error;
+  }
+
+  const jobs = (abandoned || []) as ChatJob[];
+  const exhausted = jobs.filter((job) => job.attempts >= job.max_attempts);
+  const retryable = jobs.filter((job) => job.attempts < job.max_attempts);
+
+  let requeued = 0;
+  if (retryable.length > 0) {
+    // Still abandoned: a worker may have picked one up since
+    const { data, error: requeueError } = await supabase
+      .from('chat_jobs')
+      .update({ status: 'queued', locked_until: null })
+      .in('id', retryable.map((job) => job.id))
+      .eq('status', 'processing')
+      .lt('locked_until', now)
+      .select('id');
+
+    if (requeueError) {
+      console.error('Error requeuing abandoned chat jobs:', requeueError);
+      throw requeueError;
+    }
+    requeued = data?.length || 0;
+  }
+
+  let failed: ChatJob[] = [];
+  if (exhausted.length > 0) {
+    const { data, error: failError } = await supabase
+      .from('chat_jobs')
+      .update({ status: 'failed', locked_until: null, last_error: 'Worker stopped while running the job' })
+      .in('id', exhausted.map((job) => job.id))
+      .eq('status', 'processing')
+      .lt('locked_until', now)
+      .select('*');
+
+    if (failError) {
+      console.error('Error failing abandoned chat jobs:', failError);
+      throw failError;
+    }
+    failed = (data || []) as ChatJob[];
+  }
+
+  return { requeued, failed };
+}
+
+/**
+ * Chats with at least one job ready to run, oldest first
+ *
+ * @param limit - Maximum number of chats to return
+ */
+export async function getChatsWithDueJobs(limit: number): Promise<string[]> {
+  const supabase = getServerSupabase();
+  const { data, error } = await supabase
+    .from('chat_jobs')
+    .select('chat_id')
+    .eq('status', 'queued')
+    .lte('run_after', new Date().toISOString())
+    .order('created_at', { ascending: true })
+    .limit(limit * 5);
+
+  if (error) {
+    console.error('Error fetching due chat jobs:', error);
+    throw error;
+  }
+
+  return Array.from(new Set((data || []).map((job) => job.chat_id as string))).slice(0, limit);
+}
+
+/**
+ * Whether a chat has jobs waiting to run
+ *
+ * @param chatId - The chat to check
+ * @param dueOnly - Ignore jobs waiting for a retry
+ */
+export async function hasQueuedJobs(chatId: string, dueOnly = false): Promise<boolean> {
+  const supabase = getServerSupabase();
+  let query = supabase
+    .from('chat_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('chat_id', chatId)
+    .eq('status', 'queued');
+
+  if (dueOnly) {
+    query = query.lte('run_after', new Date().toISOString());
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    console.error('Error checking queued chat jobs:', error);
+    throw error;
+  }
+
+  return (count || 0) > 0;
+}
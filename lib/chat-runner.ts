@@ -0,0 +1,180 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { LLMProvider } from '@/lib/llm';
+import { dispatchToolCall, getToolStatus } from '@/lib/tools';
+import { setActiveRun, clearActiveRun } from '@/lib/chat-runs';
+import { getConversationContent } from '@/lib/booking-updates';
+import { rebuildConversation } from '@/lib/chat-history';
+import { ConversationNotFoundError } from '@/lib/errors';
+import { ChatStreamEvent, Message } from '@/types';
+
+export interface ChatTurnOptions {
+  provider: LLMProvider;
+  chatId: string;
+  userId: string;
+  /**
+   * The message being answered (already saved to the messages table): a user
+   * message, or a system message carrying a booking update
+   */
+  userMessage: Message;
+  /** Deadline for the run in seconds */
+  maxWaitTime: number;
+  maxToolRounds: number;
+  /** Receives streaming events for the reply */
+  send: (event: ChatStreamEvent) => void;
+}
+
+/**
+ * Answer one user message: add it to the conversation, run the assistant and
+ * save the reply to the messages table
+ *
+ * @returns The saved assistant message
+ */
+export async function runChatTurn({
+  provider,
+  chatId,
+  userId,
+  userMessage,
+  maxWaitTime,
+  maxToolRounds,
+  send,
+}: ChatTurnOptions): Promise<Message> {
+  const supabase = getServerSupabase();
+
+  // Get or create the provider conversation (the OpenAI thread, for the Assistants provider)
+  let conversationId = await getConversationId(provider, chatId);
+
+  // Add user message to the conversation, unless an earlier attempt already did
+  if (userMessage.metadata?.appended_to !== conversationId) {
+    // Provider threads only take user messages; booking updates say they're automated
+    const conversationMessage = {
+      role: 'user' as const,
+      content: getConversationContent(userMessage),
+    };
+
+    try {
+      await provider.appendMessage(conversationId, conversationMessage);
+    } catch (error) {
+      if (!(error instanceof ConversationNotFoundError)) throw error;
+
+      // The thread was deleted or expired: start a new one from the stored messages
+      console.warn('Conversation lost, rebuilding for chat:', chatId);
+      ({ conversationId } = await rebuildConversation(provider, chatId, userMessage.id));
+      await provider.appendMessage(conversationId, conversationMessage);
+    }
+
+    userMessage.metadata = { ...userMessage.metadata, appended_to: conversationId };
+    const { error: appendedError } = await supabase
+      .from('messages')
+      .update({ metadata: userMessage.metadata })
+      .eq('id', userMessage.id);
+
+    if (appendedError) {
+      console.error('Error marking user message as appended:', appendedError);
+      throw appendedError;
+    }
+  }
+
+  let activeRunId: string | null = null;
+
+  try {
+    console.log(`Running ${provider.name} provider on conversation:`, conversationId);
+    const { runId, content } = await provider.run(conversationId, {
+      maxToolRounds,
+      maxWaitTime,
+      toolCallHandler: (functionName, functionArgs, toolCallId) =>
+        dispatchToolCall(functionName, functionArgs, { chatId, userId, toolCallId }),
+      onTextDelta: (text) => send({ type: 'delta', text }),
+      onToolCall: (functionName, functionArgs) =>
+        send({
+          type: 'status',
+          status: getToolStatus(functionName, functionArgs),
+          tool: functionName,
+        }),
+      onRunStarted: async (runId) => {
+        activeRunId = runId;
+        // Saved before the run goes on, so a stop request can find it
+        try {
+          await setActiveRun(chatId, runId);
+        } catch (error) {
+          console.error(`Run ${runId} on chat ${chatId} can't be stopped by the user:`, error);
+        }
+      },
+    });
+
+    if (!content) {
+      throw new Error('No text content in assistant response');
+    }
+
+    // Save assistant response to database
+    const { data: savedMessage, error: assistantMessageError } = await supabase
+      .from('messages')
+      .insert({
+        chat_id: chatId,
+        role: 'assistant',
+        content,
+        metadata: {
+          provider: provider.name,
+          thread_id: conversationId,
+          run_id: runId,
+          reply_to: userMessage.id,
+        },
+      })
+      .select()
+      .single();
+
+    if (assistantMessageError) {
+      console.error('Error saving assistant message:', assistantMessageError);
+      throw assistantMessageError;
+    }
+
+    return savedMessage as Message;
+  } finally {
+    if (activeRunId) {
+      await clearActiveRun(chatId, activeRunId).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Get the provider conversation for a chat, creating it on first use
+ *
+ * Providers that keep history on their side (the Assistants API) have their
+ * conversation ID stored in `chats.openai_thread_id`.
+ */
+async function getConversationId(provider: LLMProvider, chatId: string): Promise<string> {
+  if (provider.conversationStore === 'messages') {
+    return provider.createConversation(chatId);
+  }
+
+  const supabase = getServerSupabase();
+  const { data: chat, error: chatError } = await supabase
+    .from('chats')
+    .select('openai_thread_id')
+    .eq('id', chatId)
+    .single();
+
+  if (chatError) {
+    console.error('Error fetching chat:', chatError);
+    throw chatError;
+  }
+
+  if (chat?.openai_thread_id) {
+    return chat.openai_thread_id;
+  }
+
+  console.log('Creating new conversation for chat:', chatId);
+  const conversationId = await provider.createConversation(chatId);
+
+  // Save conversation ID to database
+  const { error: updateError } = await supabase
+    .from('chats')
+    .update({ openai_thread_id: conversationId })
+    .eq('id', chatId);
+
+  if (updateError) {
+    console.error('Error saving thread ID:', updateError);
+    throw updateError;
+  }
+
+  return conversationId;
+}
@@ -0,0 +1,172 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { Message } from '@/types';
+
+export interface ActiveRun {
+  runId: string;
+  startedAt: string;
+  conversationId: string;
+  userId: string;
+}
+
+/**
+ * Record the in-flight assistant run for a chat
+ *
+ * @param chatId - The chat the run belongs to
+ * @param runId - Provider run ID (see LLMProvider.cancel)
+ */
+export async function setActiveRun(chatId: string, runId: string): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase
+    .from('chats')
+    .update({
+      active_run_id: runId,
+      active_run_started_at: new Date().toISOString(),
+    })
+    .eq('id', chatId);
+
+  if (error) {
+    console.error('Error saving active run:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clear the in-flight run for a chat
+ *
+ * @param chatId - The chat the run belongs to
+ * @param runId - Only clear if this is still the active run
+ */
+export async function clearActiveRun(chatId: string, runId?: string): Promise<void> {
+  const supabase = getServerSupabase();
+  let query = supabase
+    .from('chats')
+    .update({ active_run_id: null, active_run_started_at: null })
+    .eq('id', chatId);
+
+  if (runId) {
+    query = query.eq('active_run_id', runId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('Error clearing active run:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the in-flight run for a chat, if any
+ *
+ * @param chatId - The chat to look up
+ * @returns The active run, or null if the chat is idle
+ */
+export async function getActiveRun(chatId: string): Promise<ActiveRun | null> {
+  const supabase = getServerSupabase();
+  const { data: chat, error } = await supabase
+    .from('chats')
+    .select('user_id, openai_thread_id, active_run_id, active_run_started_at')
+    .eq('id', chatId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching active run:', error);
+    throw error;
+  }
+
+  if (!chat?.active_run_id) {
+    return null;
+  }
+
+  return {
+    runId: chat.active_run_id,
+    startedAt: chat.active_run_started_at,
+    conversationId: chat.openai_thread_id || chatId,
+    userId: chat.user_id,
+  };
+}
+
+export type QueueStatus = 'pending' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * Try to take the per-chat run lock
+ *
+ * Only one request at a time may run the assistant on a chat; the lock expires
+ * after `ttlSeconds` in case its holder dies without releasing it.
+ *
+ * @param chatId - The chat to lock
+ * @param ttlSeconds - How long the lock is valid
+ * @returns A lock ID to pass to `releaseRunLock`, or null if the chat is busy
+ */
+export async function acquireRunLock(chatId: string, ttlSeconds: number): Promise<string | null> {
+  const supabase = getServerSupabase();
+  const lockId = crypto.randomUUID();
+  const now = new Date();
+
+  // Single conditional UPDATE, so two requests can't both take the lock
+  const { data, error } = await supabase
+    .from('chats')
+    .update({
+      run_lock_id: lockId,
+      run_lock_expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    })
+    .eq('id', chatId)
+    .or(`run_lock_id.is.null,run_lock_expires_at.lt.${now.toISOString()}`)
+    .select('id');
+
+  if (error) {
+    console.error('Error acquiring run lock:', error);
+    throw error;
+  }
+
+  return data && data.length > 0 ? lockId : null;
+}
+
+/**
+ * Push back the expiry of a run lock we hold
+ */
+export async function extendRunLock(chatId: string, lockId: string, ttlSeconds: number): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase
+    .from('chats')
+    .update({ run_lock_expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString() })
+    .eq('id', chatId)
+    .eq('run_lock_id', lockId);
+
+  if (error) {
+    console.error('Error extending run lock:', error);
+    throw error;
+  }
+}
+
+/**
+ * Release a run lock we hold
+ */
+export async function releaseRunLock(chatId: string, lockId: string): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase
+    .from('chats')
+    .update({ run_lock_id: null, run_lock_expires_at: null })
+    .eq('id', chatId)
+    .eq('run_lock_id', lockId);
+
+  if (error) {
+    console.error('Error releasing run lock:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update where a user message is in the reply queue
+ */
+export async function setQueueStatus(message: Message, status: QueueStatus): Promise<void> {
+  const supabase = getServerSupabase();
+  const { error } = await supabase
+    .from('messages')
+    .update({ metadata: { ...message.metadata, queue_status: status } })
+    .eq('id', message.id);
+
+  if (error) {
+    console.error('Error updating queue status:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import { getServerSupabase, chatStreamChannel, CHAT_STREAM_EVENT } from '@/lib/supabase';
+import { ChatStreamEvent } from '@/types';
+
+// Text deltas are batched so a reply doesn't cost one broadcast per token
+const DELTA_FLUSH_INTERVAL_MS = 150;
+
+export interface ChatStreamPublisher {
+  /** Queue an event for the chat's subscribers */
+  send: (event: ChatStreamEvent) => void;
+  /** Wait until every queued event has been broadcast */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Broadcast chat stream events to clients subscribed with `subscribeToChatStream`
+ *
+ * Uses Supabase Realtime's REST broadcast, so the worker doesn't need to hold
+ * a websocket open. Broadcast failures are logged and otherwise ignored: the
+ * saved reply still reaches clients through `subscribeToMessages`.
+ *
+ * @param chatId - The chat to publish to
+ */
+export function createChatStreamPublisher(chatId: string): ChatStreamPublisher {
+  const channel = getServerSupabase().channel(chatStreamChannel(chatId));
+
+  let pendingText = '';
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Broadcasts are chained so subscribers receive events in order
+  let sending: Promise<void> = Promise.resolve();
+
+  const broadcast = (event: ChatStreamEvent) => {
+    sending = sending.then(async () => {
+      try {
+        await channel.httpSend(CHAT_STREAM_EVENT, event);
+      } catch (error) {
+        console.error('Error broadcasting chat stream event:', error);
+      }
+    });
+  };
+
+  const flushText = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (pendingText) {
+      broadcast({ type: 'delta', text: pendingText });
+      pendingText = '';
+    }
+  };
+
+  return {
+    send(event) {
+      if (event.type === 'delta') {
+        pendingText += event.text;
+        if (!flushTimer) {
+          flushTimer = setTimeout(flushText, DELTA_FLUSH_INTERVAL_MS);
+        }
+        return;
+      }
+
+      flushText();
+      broadcast(event);
+    },
+
+    async flush() {
+      flushText();
+      await sending;
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { getLLMProvider } from '@/lib/llm';
+import { runChatTurn } from '@/lib/chat-runner';
+import { createChatStreamPublisher } from '@/lib/chat-stream';
+import { acquireRunLock, extendRunLock, releaseRunLock, setQueueStatus } from '@/lib/chat-runs';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  requeueAbandonedJobs,
+  getChatsWithDueJobs,
+  hasQueuedJobs,
+} from '@/lib/chat-jobs';
+import { RunCancelledError } from '@/lib/errors';
+import { ChatJob, Message } from '@/types';
+
+const MAX_TOOL_ROUNDS = 5;
+
+// Don't start a job with less time than this left before the deadline
+const MIN_RUN_SECONDS = 15;
+
+// Chats handled per worker invocation
+const MAX_CHATS_PER_SWEEP = 10;
+
+/**
+ * Answer a chat's queued messages in order until the queue is empty or time runs out
+ *
+ * Takes the chat's run lock, so concurrent calls for the same chat are safe:
+ * whoever gets the lock does the work. Replies stream to clients over
+ * `subscribeToChatStream` and are saved to the messages table.
+ *
+ * @param chatId - The chat to process
+ * @param deadline - Epoch milliseconds by which processing must stop
+ */
+export async function processChatJobs(chatId: string, deadline: number): Promise<void> {
+  const lockSeconds = Math.ceil((deadline - Date.now()) / 1000) + 10;
+  let lockId = await acquireRunLock(chatId, lockSeconds);
+
+  while (lockId) {
+    let retryPending = false;
+    try {
+      retryPending = await drainQueue(chatId, lockId, deadline);
+    } finally {
+      await releaseRunLock(chatId, lockId);
+    }
+
+    if (retryPending || deadline - Date.now() < MIN_RUN_SECONDS * 1000) {
+      return;
+    }
+
+    // A job may have been queued after our last check but before the release
+    lockId = (await hasQueuedJobs(chatId, true)) ? await acquireRunLock(chatId, lockSeconds) : null;
+  }
+}
+
+/**
+ * Process due jobs across all chats; called on a schedule by the worker route
+ *
+ * Picks up retries and anything left behind by a request that ran out of time.
+ *
+ * @param deadline - Epoch milliseconds by which processing must stop
+ * @returns Number of chats processed
+ */
+export async function processDueJobs(deadline: number): Promise<number> {
+  const { requeued, failed } = await requeueAbandonedJobs();
+  if (requeued > 0) {
+    console.warn('Requeued abandoned chat jobs:', requeued);
+  }
+  for (const job of failed) {
+    console.error(`Chat job ${job.id} abandoned on its last attempt, giving up`);
+    await giveUpOnJob(job, job.last_error || 'Worker stopped while running the job').catch((error) =>
+      console.error('Error giving up on abandoned chat job:', job.id, error)
+    );
+  }
+
+  const chatIds = await getChatsWithDueJobs(MAX_CHATS_PER_SWEEP);
+  let processed = 0;
+
+  for (const chatId of chatIds) {
+    if (deadline - Date.now() < MIN_RUN_SECONDS * 1000) break;
+
+    try {
+      await processChatJobs(chatId, deadline);
+      processed++;
+    } catch (error) {
+      console.error('Error processing jobs for chat:', chatId, error);
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Run the chat's due jobs while holding the run lock
+ *
+ * @returns true if the queue is blocked on a job waiting to be retried
+ */
+async function drainQueue(chatId: string, lockId: string, deadline: number): Promise<boolean> {
+  const provider = await getLLMProvider();
+  const configurationError = provider.configurationError();
+  if (configurationError) {
+    throw new Error(`LLM provider ${provider.name} not configured: ${configurationError}`);
+  }
+
+  const stream = createChatStreamPublisher(chatId);
+
+  try {
+    while (true) {
+      const remainingSeconds = Math.floor((deadline - Date.now()) / 1000);
+      if (remainingSeconds < MIN_RUN_SECONDS) {
+        console.warn('Out of time, leaving jobs queued for chat:', chatId);
+        return false;
+      }
+
+      await extendRunLock(chatId, lockId, remainingSeconds + 10);
+      const job = await claimNextJob(chatId, remainingSeconds + 10);
+      if (!job) {
+        return await hasQueuedJobs(chatId);
+      }
+
+      let userMessage: Message;
+      try {
+        userMessage = await getJobMessage(job);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Message not found';
+        console.error(`Chat job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+        if ((await failJob(job, reason)) === 'retrying') {
+          return true;
+        }
+        continue;
+      }
+
+      await setQueueStatus(userMessage, 'processing');
+      stream.send({ type: 'start', messageId: userMessage.id });
+
+      try {
+        const reply = await runChatTurn({
+          provider,
+          chatId,
+          userId: job.user_id,
+          userMessage,
+          maxWaitTime: remainingSeconds,
+          maxToolRounds: MAX_TOOL_ROUNDS,
+          send: stream.send,
+        });
+
+        await completeJob(job);
+        await setQueueStatus(userMessage, 'done');
+        stream.send({ type: 'done', message: reply });
+      } catch (error) {
+        if (error instanceof RunCancelledError) {
+          // The cancel route leaves the marker message
+          console.log('Assistant run cancelled for chat:', chatId);
+          await completeJob(job, 'cancelled');
+          await setQueueStatus(userMessage, 'cancelled');
+          stream.send({ type: 'cancelled' });
+          continue;
+        }
+
+        const reason = error instanceof Error ? error.message : 'Internal server error';
+        console.error(`Chat job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+
+        const outcome = await failJob(job, reason);
+        if (outcome === 'retrying') {
+          // Later messages wait so replies stay in order
+          stream.send({ type: 'status', status: 'Something went wrong, retrying shortly…' });
+          return true;
+        }
+
+        await setQueueStatus(userMessage, 'failed');
+        await saveGiveUpMessage(job, userMessage, reason);
+        stream.send({ type: 'error', error: reason });
+      }
+    }
+  } finally {
+    await stream.flush();
+  }
+}
+
+/**
+ * Tell the user a job that won't run again failed, if its message is still there
+ */
+async function giveUpOnJob(job: ChatJob, reason: string): Promise<void> {
+  const userMessage = await getJobMessage(job);
+  await setQueueStatus(userMessage, 'failed');
+  await saveGiveUpMessage(job, userMessage, reason);
+}
+
+async function getJobMessage(job: ChatJob): Promise<Message> {
+  const { data: message, error } = await getServerSupabase()
+    .from('messages')
+    .select('*')
+    .eq('id', job.message_id)
+    .single();
+
+  if (error) {
+    console.error('Error fetching job message:', error);
+    throw error;
+  }
+
+  return message as Message;
+}
+
+/**
+ * Tell the user their message won't be answered
+ */
+async function saveGiveUpMessage(job: ChatJob, userMessage: Message, reason: string): Promise<void> {
+  const preview =
+    userMessage.content.length > 60 ? `${userMessage.content.slice(0, 60)}…` : userMessage.content;
+  const subject = userMessage.role === 'system' ? 'follow up on this booking update' : `reply to "${preview}"`;
+
+  const { error } = await getServerSupabase()
+    .from('messages')
+    .insert({
+      chat_id: job.chat_id,
+      role: 'system',
+      content: `⚠️ Sorry, I couldn't ${subject} after ${job.attempts} attempts. Please try sending it again.`,
+      metadata: {
+        job_id: job.id,
+        reply_to: userMessage.id,
+        error: reason,
+      },
+    });
+
+  if (error) {
+    console.error('Error saving give-up message:', error);
+    throw error;
+  }
+}
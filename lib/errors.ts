@@ -0,0 +1,58 @@
+/**
+ * Thrown when an assistant run is cancelled before it completes (e.g. stopped by the user)
+ */
+export class RunCancelledError extends Error {
+  constructor(message: string = 'Assistant run was cancelled') {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+/**
+ * Thrown when a provider conversation no longer exists (e.g. a deleted or expired OpenAI thread)
+ */
+export class ConversationNotFoundError extends Error {
+  constructor(public conversationId: string) {
+    super(`Conversation not found: ${conversationId}`);
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a booking status change isn't allowed by the booking lifecycle
+ */
+export class InvalidBookingTransitionError extends Error {
+  constructor(
+    public bookingId: string,
+    public from: string,
+    public to: string
+  ) {
+    super(`Booking ${bookingId} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidBookingTransitionError';
+  }
+}
+
+/**
+ * Thrown by the booking service when a request can't be carried out (bad input, not found, conflict)
+ *
+ * `status` is the HTTP status the booking routes respond with; `extra` is
+ * added to the response body (e.g. `duplicateBookingId`).
+ */
+export class BookingRequestError extends Error {
+  constructor(
+    public status: number,
+    public error: string,
+    public details?: string,
+    public extra: Record<string, any> = {}
+  ) {
+    super(details ? `${error}: ${details}` : error);
+    this.name = 'BookingRequestError';
+  }
+
+  /**
+   * The error response body, as returned by the booking routes
+   */
+  toJSON(): Record<string, any> {
+    return { success: false, error: this.error, details: this.details, ...this.extra };
+  }
+}
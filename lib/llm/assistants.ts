@@ -0,0 +1,54 @@
+import {
+  cancelRun,
+  createThread,
+  getMessages,
+  sendMessage,
+  streamAssistantRun,
+} from '@/lib/openai';
+import type { TextContentBlock } from 'openai/resources/beta/threads/index';
+import { LLMProvider } from './types';
+
+/**
+ * OpenAI Assistants API provider: one thread per chat, history kept by OpenAI
+ */
+export const assistantsProvider: LLMProvider = {
+  name: 'assistants',
+  conversationStore: 'provider',
+
+  configurationError() {
+    if (!process.env.OPENAI_API_KEY) return 'OPENAI_API_KEY not configured';
+    if (!process.env.OPENAI_ASSISTANT_ID) return 'OPENAI_ASSISTANT_ID not configured';
+    return null;
+  },
+
+  async createConversation() {
+    return createThread();
+  },
+
+  async appendMessage(threadId, message) {
+    if (message.role !== 'user') {
+      throw new Error(`Assistants provider cannot append ${message.role} messages`);
+    }
+    await sendMessage(threadId, message.content);
+  },
+
+  async run(threadId, options = {}) {
+    const { run, content, toolRounds } = await streamAssistantRun(threadId, options);
+    return { runId: run.id, content, toolRounds };
+  },
+
+  async cancel(threadId, runId) {
+    await cancelRun(threadId, runId);
+  },
+
+  async listMessages(threadId, limit = 100) {
+    const messages = await getMessages(threadId, limit, 'asc');
+    return messages.map((message) => ({
+      role: message.role,
+      content: message.content
+        .filter((content): content is TextContentBlock => content.type === 'text')
+        .map((content) => content.text.value)
+        .join('\n'),
+    }));
+  },
+};
@@ -0,0 +1,183 @@
+import { openai, handleToolCalls, DEFAULT_MAX_TOOL_ROUNDS, DEFAULT_MAX_WAIT_TIME } from '@/lib/openai';
+import { getServerSupabase } from '@/lib/supabase';
+import { RunCancelledError } from '@/lib/errors';
+import { ASSISTANT_INSTRUCTIONS, ASSISTANT_MODEL, ASSISTANT_TEMPERATURE } from '@/lib/assistant';
+import { getAssistantTools } from '@/lib/tools';
+import { getConversationContent } from '@/lib/booking-updates';
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources/chat/completions';
+import { ConversationMessage, LLMProvider } from './types';
+
+// How many stored messages are sent to the model as context
+const HISTORY_LIMIT = 50;
+
+// In-flight runs in this process, so `cancel` can abort them
+const activeRuns = new Map<string, AbortController>();
+
+/**
+ * Chat Completions provider: stateless model calls, history read from our `messages` table
+ *
+ * Uses the same instructions, model and tools as the assistant definition.
+ */
+export const chatCompletionsProvider: LLMProvider = {
+  name: 'chat-completions',
+  conversationStore: 'messages',
+
+  configurationError() {
+    return process.env.OPENAI_API_KEY ? null : 'OPENAI_API_KEY not configured';
+  },
+
+  async createConversation(chatId) {
+    return chatId;
+  },
+
+  async appendMessage() {
+    // History is the messages table, which the chat route writes
+  },
+
+  async run(chatId, options = {}) {
+    const {
+      toolCallHandler,
+      maxToolRounds = DEFAULT_MAX_TOOL_ROUNDS,
+      maxWaitTime = DEFAULT_MAX_WAIT_TIME,
+      onTextDelta,
+      onToolCall,
+      onRunStarted,
+    } = options;
+
+    const history = await chatCompletionsProvider.listMessages(chatId, HISTORY_LIMIT);
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: ASSISTANT_INSTRUCTIONS },
+      ...history,
+    ];
+    const tools: ChatCompletionTool[] = getAssistantTools().map((tool) => ({
+      type: 'function',
+      function: tool.function,
+    }));
+
+    // Completions have no run object; track our own ID for cancellation
+    const runId = `run_${crypto.randomUUID()}`;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort('timeout'), maxWaitTime * 1000);
+    activeRuns.set(runId, controller);
+    await onRunStarted?.(runId);
+
+    let content = '';
+    let toolRounds = 0;
+
+    try {
+      while (true) {
+        const stream = await openai.chat.completions.create(
+          {
+            model: ASSISTANT_MODEL,
+            temperature: ASSISTANT_TEMPERATURE,
+            messages,
+            tools,
+            stream: true,
+          },
+          { signal: controller.signal }
+        );
+
+        let text = '';
+        const toolCalls: Array<{ id: string; function: { name: string; arguments: string } }> = [];
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+
+          if (delta?.content) {
+            if (!text && content) {
+              // Keep text from separate rounds apart
+              content += '\n\n';
+              onTextDelta?.('\n\n');
+            }
+            text += delta.content;
+            content += delta.content;
+            onTextDelta?.(delta.content);
+          }
+
+          // Tool calls arrive in fragments, keyed by index
+          for (const fragment of delta?.tool_calls ?? []) {
+            const call = (toolCalls[fragment.index] ??= {
+              id: '',
+              function: { name: '', arguments: '' },
+            });
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+          }
+        }
+
+        if (toolCalls.length === 0) break;
+
+        if (!toolCallHandler) {
+          throw new Error('Tool calls required but no handler provided');
+        }
+
+        if (toolRounds >= maxToolRounds) {
+          throw new Error(`Assistant exceeded ${maxToolRounds} tool call rounds`);
+        }
+
+        toolRounds++;
+        console.log(`Tool call round ${toolRounds}: ${toolCalls.length} call(s)`);
+
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          tool_calls: toolCalls.map((call) => ({ ...call, type: 'function' })),
+        });
+
+        const toolOutputs = await handleToolCalls(toolCalls, toolCallHandler, onToolCall);
+        if (controller.signal.aborted) break;
+
+        for (const output of toolOutputs) {
+          messages.push({ role: 'tool', tool_call_id: output.tool_call_id, content: output.output });
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      activeRuns.delete(runId);
+    }
+
+    if (controller.signal.aborted) {
+      if (controller.signal.reason === 'timeout') {
+        throw new Error(`Assistant run timed out after ${maxWaitTime} seconds`);
+      }
+      throw new RunCancelledError();
+    }
+
+    return { runId, content, toolRounds };
+  },
+
+  async cancel(_chatId, runId) {
+    // Only runs in this process can be reached
+    activeRuns.get(runId)?.abort('cancelled');
+  },
+
+  async listMessages(chatId, limit = 100) {
+    const supabase = getServerSupabase();
+    const { data, error } = await supabase
+      .from('messages')
+      .select('role, content, metadata')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error loading chat history:', error);
+      throw error;
+    }
+
+    // Messages still waiting in the chat's queue aren't part of the conversation yet
+    return (data || [])
+      .filter((message) => message.metadata?.queue_status !== 'pending')
+      .map(
+        (message) =>
+          ({ role: message.role, content: getConversationContent(message) }) as ConversationMessage
+      )
+      .reverse();
+  },
+};
@@ -0,0 +1,152 @@
+import { ConversationMessage, LLMProvider } from './types';
+
+export interface FakeToolCall {
+  name: string;
+  args: Record<string, any>;
+  /** Tool call ID passed to the handler (optional) */
+  id?: string;
+  /** Returned as the tool output instead of running the tool, e.g. for arguments that don't parse */
+  error?: string;
+}
+
+export interface FakeScriptStep {
+  /** Step applies when the last user message matches (default: always) */
+  match?: RegExp | string;
+  /** Tool calls to emit, one round per entry, before replying */
+  toolCalls?: (FakeToolCall[] | ((input: string) => FakeToolCall[]))[];
+  /** Reply text, given the user message and the outputs of the tool calls */
+  reply: string | ((input: string, toolOutputs: any[]) => string);
+}
+
+/**
+ * Default script for offline development
+ *
+ * `/tool <name> <json args>` calls a registered tool with those arguments;
+ * anything else is echoed back.
+ */
+export const DEFAULT_FAKE_SCRIPT: FakeScriptStep[] = [
+  {
+    match: /^\/tool\s+\w+/,
+    toolCalls: [
+      (input) => {
+        const [, name, rawArgs] = input.match(/^\/tool\s+(\w+)\s*([\s\S]*)$/) || [];
+        try {
+          return [{ name, args: rawArgs ? JSON.parse(rawArgs) : {} }];
+        } catch (parseError) {
+          // As with a real model's malformed arguments, the tool isn't run and the error is its output
+          console.error('Failed to parse tool call arguments:', parseError);
+          return [{ name, args: {}, error: 'Failed to parse function arguments' }];
+        }
+      },
+    ],
+    reply: (_input, toolOutputs) =>
+      `Tool result:\n${JSON.stringify(toolOutputs[toolOutputs.length - 1], null, 2)}`,
+  },
+  {
+    reply: (input) => `(fake assistant) You said: ${input}`,
+  },
+];
+
+/**
+ * Scripted provider for offline runs and tests; needs no API keys
+ *
+ * Conversations are kept in memory. Replies and tool calls are deterministic:
+ * the first script step whose `match` fits the last user message is played.
+ * Doesn't import `lib/openai`, whose client requires OPENAI_API_KEY.
+ *
+ * @param script - Steps to play (default: DEFAULT_FAKE_SCRIPT)
+ */
+export function createFakeProvider(script: FakeScriptStep[] = DEFAULT_FAKE_SCRIPT): LLMProvider {
+  const conversations = new Map<string, ConversationMessage[]>();
+  let runCount = 0;
+
+  const historyFor = (conversationId: string) => {
+    if (!conversations.has(conversationId)) {
+      conversations.set(conversationId, []);
+    }
+    return conversations.get(conversationId)!;
+  };
+
+  return {
+    name: 'fake',
+    conversationStore: 'messages',
+
+    configurationError() {
+      return null;
+    },
+
+    async createConversation(chatId) {
+      historyFor(chatId);
+      return chatId;
+    },
+
+    async appendMessage(conversationId, message) {
+      historyFor(conversationId).push(message);
+    },
+
+    async run(conversationId, options = {}) {
+      // No default cap: scripts are finite
+      const { toolCallHandler, maxToolRounds = Infinity, onTextDelta, onToolCall, onRunStarted } = options;
+      const runId = `fake_run_${++runCount}`;
+      await onRunStarted?.(runId);
+      const history = historyFor(conversationId);
+      const input = [...history].reverse().find((message) => message.role === 'user')?.content || '';
+
+      const step = script.find((candidate) =>
+        candidate.match === undefined
+          ? true
+          : typeof candidate.match === 'string'
+            ? input.includes(candidate.match)
+            : candidate.match.test(input)
+      );
+      if (!step) {
+        throw new Error(`Fake provider has no script step for: ${input}`);
+      }
+
+      const rounds = step.toolCalls || [];
+      if (rounds.length > maxToolRounds) {
+        throw new Error(`Assistant exceeded ${maxToolRounds} tool call rounds`);
+      }
+      if (rounds.length > 0 && !toolCallHandler) {
+        throw new Error('Tool calls required but no handler provided');
+      }
+
+      const toolOutputs: any[] = [];
+      for (const round of rounds) {
+        const calls = typeof round === 'function' ? round(input) : round;
+        const outputs = await Promise.all(
+          calls.map(async ({ name, args, id, error }) => {
+            if (error) {
+              return { error };
+            }
+            onToolCall?.(name, args);
+            try {
+              return await toolCallHandler!(name, args, id);
+            } catch (error) {
+              return { error: error instanceof Error ? error.message : 'Tool execution failed' };
+            }
+          })
+        );
+        toolOutputs.push(...outputs);
+      }
+
+      const content = typeof step.reply === 'function' ? step.reply(input, toolOutputs) : step.reply;
+
+      // Stream word by word, like a real model
+      for (const word of content.split(/(\s+)/)) {
+        if (word) onTextDelta?.(word);
+      }
+
+      history.push({ role: 'assistant', content });
+      return { runId, content, toolRounds: rounds.length };
+    },
+
+    async cancel() {
+      // Scripted runs finish immediately; nothing to stop
+    },
+
+    async listMessages(conversationId, limit = 100) {
+      return historyFor(conversationId).slice(-limit);
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { LLMProvider, LLMProviderName } from './types';
+
+let fakeProvider: LLMProvider | undefined;
+
+/**
+ * Get the configured LLM provider
+ *
+ * Selected with LLM_PROVIDER (default: 'assistants'). Providers are loaded
+ * lazily so the fake provider works without any OpenAI configuration.
+ *
+ * @param name - Override the configured provider
+ */
+export async function getLLMProvider(
+  name: LLMProviderName = (process.env.LLM_PROVIDER as LLMProviderName) || 'assistants'
+): Promise<LLMProvider> {
+  switch (name) {
+    case 'assistants':
+      return (await import('./assistants')).assistantsProvider;
+
+    case 'chat-completions':
+      return (await import('./chat-completions')).chatCompletionsProvider;
+
+    case 'fake':
+      // Keep one instance so in-memory conversations survive between requests
+      fakeProvider ??= (await import('./fake')).createFakeProvider();
+      return fakeProvider;
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
+
+export { createFakeProvider, DEFAULT_FAKE_SCRIPT } from './fake';
+export type { FakeScriptStep, FakeToolCall } from './fake';
+export type {
+  ConversationMessage,
+  LLMProvider,
+  LLMProviderName,
+  ProviderRunOptions,
+  ProviderRunResult,
+} from './types';
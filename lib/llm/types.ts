@@ -0,0 +1,53 @@
+import type { ToolCallHandler } from '@/lib/openai';
+
+export type LLMProviderName = 'assistants' | 'chat-completions' | 'fake';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface ProviderRunOptions {
+  /** Function to handle tool calls */
+  toolCallHandler?: ToolCallHandler;
+  /** Maximum number of tool call rounds before giving up */
+  maxToolRounds?: number;
+  /** Overall deadline for the run in seconds, tool calls included */
+  maxWaitTime?: number;
+  /** Called with each chunk of assistant text as it streams */
+  onTextDelta?: (text: string) => void;
+  /** Called before each tool call is executed */
+  onToolCall?: (toolName: string, args: any) => void;
+  /** Called once the run has an ID that can be passed to `cancel`; awaited before the run goes on */
+  onRunStarted?: (runId: string) => void | Promise<void>;
+}
+
+export interface ProviderRunResult {
+  /** Provider-specific ID of the run, stored in message metadata */
+  runId: string;
+  content: string;
+  toolRounds: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  /**
+   * Where conversation history lives:
+   * - 'provider': on the provider's side; the conversation ID is stored in `chats.openai_thread_id`
+   * - 'messages': in our `messages` table; the conversation ID is the chat ID, and
+   *   callers write user messages to the table themselves
+   */
+  conversationStore: 'provider' | 'messages';
+  /** Missing configuration, or null if the provider is ready to use */
+  configurationError(): string | null;
+  /** Start a conversation for a chat and return its ID */
+  createConversation(chatId: string): Promise<string>;
+  /** Add a message to the conversation history */
+  appendMessage(conversationId: string, message: ConversationMessage): Promise<void>;
+  /** Run the model on the conversation, resolving tool calls until it replies */
+  run(conversationId: string, options?: ProviderRunOptions): Promise<ProviderRunResult>;
+  /** Stop an in-flight run; `run` then rejects with RunCancelledError */
+  cancel(conversationId: string, runId: string): Promise<void>;
+  /** Conversation history, oldest first */
+  listMessages(conversationId: string, limit?: number): Promise<ConversationMessage[]>;
+}
@@ -0,0 +1,116 @@
+interface MCPRequest {
+  jsonrpc: '2.0';
+  method: 'tools/call';
+  params: {
+    name: string;
+    arguments: Record<string, any>;
+  };
+  id: number;
+}
+
+export interface MCPResult {
+  callId?: string;
+  status?: string;
+  message?: string;
+  [key: string]: any;
+}
+
+interface MCPResponse {
+  jsonrpc: '2.0';
+  result?: MCPResult;
+  error?: {
+    code: number;
+    message: string;
+  };
+  id: number;
+}
+
+// Default timeout for MCP server requests (30 seconds)
+const MCP_TIMEOUT_MS = 30000;
+
+/**
+ * Call a tool on the MCP server (JSON-RPC `tools/call`)
+ *
+ * @param name - The MCP tool name, e.g. `start_booking_call`
+ * @param args - The tool arguments
+ * @param timeoutMs - Request timeout in milliseconds (default: 30000)
+ * @returns The JSON-RPC result
+ */
+export async function callMCPTool(
+  name: string,
+  args: Record<string, any>,
+  timeoutMs: number = MCP_TIMEOUT_MS
+): Promise<MCPResult> {
+  const mcpServerUrl = process.env.MCP_SERVER_URL;
+  if (!mcpServerUrl) {
+    console.error('MCP_SERVER_URL environment variable not configured');
+    throw new Error('MCP server not configured');
+  }
+
+  const mcpRequest: MCPRequest = {
+    jsonrpc: '2.0',
+    method: 'tools/call',
+    params: {
+      name,
+      arguments: args,
+    },
+    id: 1,
+  };
+
+  console.log(`Calling MCP server (${name}):`, mcpServerUrl + '/mcp');
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  let mcpResponse: Response;
+  try {
+    mcpResponse = await fetch(`${mcpServerUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(mcpRequest),
+      signal: controller.signal,
+    });
+  } catch (fetchError: any) {
+    if (fetchError.name === 'AbortError') {
+      console.error(`MCP server request timed out after ${timeoutMs / 1000} seconds`);
+      throw new Error('MCP server request timed out. Please try again.');
+    }
+
+    console.error('MCP server connection error:', fetchError);
+    throw new Error(`Failed to connect to MCP server: ${fetchError.message}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  // Check MCP server response status
+  if (!mcpResponse.ok) {
+    const errorText = await mcpResponse.text();
+    console.error('MCP server HTTP error:', {
+      status: mcpResponse.status,
+      statusText: mcpResponse.statusText,
+      body: errorText,
+    });
+    throw new Error(`MCP server error (${mcpResponse.status}): ${errorText || mcpResponse.statusText}`);
+  }
+
+  // Parse MCP server response
+  let mcpData: MCPResponse;
+  try {
+    mcpData = await mcpResponse.json();
+  } catch (parseError) {
+    console.error('Failed to parse MCP server response');
+    throw new Error('Invalid response from MCP server');
+  }
+
+  console.log('MCP server response:', mcpData);
+
+  // Check for JSON-RPC error
+  if (mcpData.error) {
+    console.error('MCP server returned error:', mcpData.error);
+    throw new Error(`MCP server error: ${mcpData.error.message}`);
+  }
+
+  return mcpData.result || {};
+}
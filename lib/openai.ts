@@ -1,10 +1,12 @@
 import OpenAI from 'openai';
+import { RunCancelledError, ConversationNotFoundError } from '@/lib/errors';
+import type { AssistantStream } from 'openai/lib/AssistantStream';
 import type {
-  Thread,
   Message,
   Run,
-  MessageContentText,
+  TextContentBlock,
 } from 'openai/resources/beta/threads/index';
+import type { RequiredActionFunctionToolCall } from 'openai/resources/beta/threads/runs/runs';
 
 // Initialize OpenAI client
 export const openai = new OpenAI({
@@ -21,9 +23,36 @@ export interface AssistantMessage {
 }
 
 export interface ToolCallHandler {
-  (toolName: string, args: any): Promise<any>;
+  /** `toolCallId` is the model's ID for the call, when it has one */
+  (toolName: string, args: any, toolCallId?: string): Promise<any>;
 }
 
+export interface RunLoopOptions {
+  /** Assistant to run (default: OPENAI_ASSISTANT_ID) */
+  assistantId?: string;
+  /** Function to handle tool calls */
+  toolCallHandler?: ToolCallHandler;
+  /** Maximum number of requires_action rounds before giving up (default: 5) */
+  maxToolRounds?: number;
+  /** Overall deadline for the run in seconds, tool calls included (default: 60) */
+  maxWaitTime?: number;
+  /** Called with each chunk of assistant text as it streams */
+  onTextDelta?: (text: string) => void;
+  /** Called before each tool call is executed */
+  onToolCall?: (toolName: string, args: any) => void;
+  /** Called once the run exists, with its ID (e.g. to allow cancelling it); awaited before the run goes on */
+  onRunStarted?: (runId: string) => void | Promise<void>;
+}
+
+export interface RunLoopResult {
+  run: Run;
+  content: string;
+  toolRounds: number;
+}
+
+export const DEFAULT_MAX_TOOL_ROUNDS = 5;
+export const DEFAULT_MAX_WAIT_TIME = 60;
+
 /**
  * Create a new OpenAI thread
  *
@@ -48,6 +77,7 @@ export async function createThread(): Promise<string> {
  * @param threadId - The ID of the thread
  * @param message - The message content
  * @returns The created message
+ * @throws ConversationNotFoundError if the thread no longer exists
  */
 export async function sendMessage(
   threadId: string,
@@ -63,6 +93,10 @@ export async function sendMessage(
     return createdMessage;
   } catch (error) {
     console.error('Error sending message:', error);
+    // The thread was deleted or has expired
+    if (error instanceof OpenAI.NotFoundError) {
+      throw new ConversationNotFoundError(threadId);
+    }
     throw new Error(
       `Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
@@ -70,101 +104,172 @@ export async function sendMessage(
 }
 
 /**
- * Run the assistant on a thread and handle tool calls
+ * Stream an assistant run, resolving tool calls round by round until the run
+ * reaches a terminal state
  *
  * @param threadId - The ID of the thread
- * @param toolCallHandler - Optional function to handle tool calls
- * @param maxWaitTime - Maximum time to wait for completion in seconds (default: 60)
- * @returns The assistant's response message
+ * @param options - Tool handler, limits and streaming callbacks
+ * @returns The final run and the text the assistant produced during it
  */
-export async function runAssistant(
+export async function streamAssistantRun(
   threadId: string,
-  toolCallHandler?: ToolCallHandler,
-  maxWaitTime: number = 60
-): Promise<AssistantMessage> {
-  const assistantId = process.env.OPENAI_ASSISTANT_ID;
+  options: RunLoopOptions = {}
+): Promise<RunLoopResult> {
+  const {
+    assistantId = process.env.OPENAI_ASSISTANT_ID,
+    toolCallHandler,
+    maxToolRounds = DEFAULT_MAX_TOOL_ROUNDS,
+    maxWaitTime = DEFAULT_MAX_WAIT_TIME,
+    onTextDelta,
+    onToolCall,
+    onRunStarted,
+  } = options;
+
   if (!assistantId) {
     throw new Error('OPENAI_ASSISTANT_ID environment variable is not set');
   }
 
-  try {
-    // Start the run
-    console.log('Starting assistant run on thread:', threadId);
-    let run = await openai.beta.threads.runs.create(threadId, {
-      assistant_id: assistantId,
-    });
+  const deadline = Date.now() + maxWaitTime * 1000;
+  let content = '';
+  // Known as soon as the run is created, so it can be cancelled even if its first stream fails
+  let runId: string | undefined;
 
-    // Poll for completion
-    const startTime = Date.now();
-    const maxWaitMs = maxWaitTime * 1000;
-    let attempts = 0;
+  // Relay one stream segment (run start or tool output submission) to completion
+  const relay = async (stream: AssistantStream): Promise<Run> => {
+    const timeoutId = setTimeout(() => stream.abort(), Math.max(deadline - Date.now(), 0));
 
-    while (run.status === 'queued' || run.status === 'in_progress') {
-      // Check timeout
-      if (Date.now() - startTime > maxWaitMs) {
-        throw new Error(`Assistant run timed out after ${maxWaitTime} seconds`);
-      }
+    try {
+      for await (const event of stream) {
+        if (event.event === 'thread.run.created') {
+          runId = event.data.id;
+          await onRunStarted?.(event.data.id);
+        }
 
-      // Wait 1 second before checking again
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      attempts++;
+        if (event.event === 'thread.message.created' && content) {
+          // Keep separate assistant messages in one run apart
+          content += '\n\n';
+          onTextDelta?.('\n\n');
+        }
+
+        if (event.event === 'thread.message.delta') {
+          for (const part of event.data.delta.content ?? []) {
+            if (part.type === 'text' && part.text?.value) {
+              content += part.text.value;
+              onTextDelta?.(part.text.value);
+            }
+          }
+        }
+      }
 
-      // Retrieve updated run status
-      run = await openai.beta.threads.runs.retrieve(threadId, run.id);
-      console.log(`Run status (attempt ${attempts}):`, run.status);
+      return await stream.finalRun();
+    } catch (error) {
+      if (stream.aborted) {
+        throw new Error(`Assistant run timed out after ${maxWaitTime} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
     }
+  };
+
+  console.log('Starting assistant run on thread:', threadId);
+  let run: Run | undefined;
+  let toolRounds = 0;
 
-    // Handle tool calls if required
-    if (run.status === 'requires_action') {
-      console.log('Assistant requires action (tool calls)');
+  try {
+    run = await relay(
+      openai.beta.threads.runs.stream(threadId, { assistant_id: assistantId })
+    );
 
+    while (run.status === 'requires_action') {
       if (!toolCallHandler) {
         throw new Error('Tool calls required but no handler provided');
       }
 
-      const toolCalls = run.required_action?.submit_tool_outputs?.tool_calls;
-      if (toolCalls && toolCalls.length > 0) {
-        const toolOutputs = await handleToolCalls(toolCalls, toolCallHandler);
-
-        // Submit tool outputs
-        console.log('Submitting tool outputs...');
-        run = await openai.beta.threads.runs.submitToolOutputs(threadId, run.id, {
-          tool_outputs: toolOutputs,
-        });
-
-        // Poll again after submitting tool outputs
-        attempts = 0;
-        while (run.status === 'queued' || run.status === 'in_progress') {
-          if (Date.now() - startTime > maxWaitMs) {
-            throw new Error(`Assistant run timed out after ${maxWaitTime} seconds`);
-          }
+      if (toolRounds >= maxToolRounds) {
+        throw new Error(`Assistant exceeded ${maxToolRounds} tool call rounds`);
+      }
+
+      toolRounds++;
+      const toolCalls = run.required_action?.submit_tool_outputs?.tool_calls || [];
+      console.log(`Tool call round ${toolRounds}: ${toolCalls.length} call(s)`);
+
+      const toolOutputs = await handleToolCalls(toolCalls, toolCallHandler, onToolCall);
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Assistant run timed out after ${maxWaitTime} seconds`);
+      }
 
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-          attempts++;
-          run = await openai.beta.threads.runs.retrieve(threadId, run.id);
-          console.log(`Run status after tool submission (attempt ${attempts}):`, run.status);
+      try {
+        run = await relay(
+          openai.beta.threads.runs.submitToolOutputsStream(run.id, {
+            thread_id: threadId,
+            tool_outputs: toolOutputs,
+          })
+        );
+      } catch (error) {
+        // The run may have been cancelled while the tools were running
+        const latest = await getRunStatus(threadId, run.id).catch(() => null);
+        if (latest?.status === 'cancelling' || latest?.status === 'cancelled') {
+          throw new RunCancelledError();
         }
+        throw error;
       }
     }
-
-    // Handle different final statuses
-    if (run.status === 'failed') {
-      const errorMessage = run.last_error?.message || 'Unknown error';
-      console.error('Assistant run failed:', errorMessage);
-      throw new Error(`Assistant run failed: ${errorMessage}`);
+  } catch (error) {
+    // Don't leave an active run behind: it would block the thread for the next message
+    const activeRunId = runId || run?.id;
+    const finished = !!run && run.id === activeRunId && isTerminalRunStatus(run.status);
+    if (activeRunId && !finished) {
+      // cancelRun logs its own errors; the original failure is the one to report
+      await cancelRun(threadId, activeRunId).catch(() => undefined);
     }
+    throw error;
+  }
 
-    if (run.status === 'expired') {
-      throw new Error('Assistant run expired');
-    }
+  // Handle different final statuses
+  if (run.status === 'failed') {
+    const errorMessage = run.last_error?.message || 'Unknown error';
+    console.error('Assistant run failed:', errorMessage);
+    throw new Error(`Assistant run failed: ${errorMessage}`);
+  }
 
-    if (run.status === 'cancelled') {
-      throw new Error('Assistant run was cancelled');
-    }
+  if (run.status === 'expired') {
+    throw new Error('Assistant run expired');
+  }
 
-    if (run.status !== 'completed') {
-      throw new Error(`Unexpected run status: ${run.status}`);
-    }
+  if (run.status === 'cancelled' || run.status === 'cancelling') {
+    throw new RunCancelledError();
+  }
+
+  if (run.status !== 'completed') {
+    throw new Error(`Unexpected run status: ${run.status}`);
+  }
+
+  return { run, content, toolRounds };
+}
+
+/**
+ * Run the assistant on a thread and handle tool calls
+ *
+ * @param threadId - The ID of the thread
+ * @param toolCallHandler - Optional function to handle tool calls
+ * @param maxWaitTime - Maximum time to wait for completion in seconds (default: 60)
+ * @param maxToolRounds - Maximum number of tool call rounds (default: 5)
+ * @returns The assistant's response message
+ */
+export async function runAssistant(
+  threadId: string,
+  toolCallHandler?: ToolCallHandler,
+  maxWaitTime: number = DEFAULT_MAX_WAIT_TIME,
+  maxToolRounds: number = DEFAULT_MAX_TOOL_ROUNDS
+): Promise<AssistantMessage> {
+  try {
+    const { run } = await streamAssistantRun(threadId, {
+      toolCallHandler,
+      maxWaitTime,
+      maxToolRounds,
+    });
 
     // Retrieve the assistant's response
     const messages = await openai.beta.threads.messages.list(threadId, {
@@ -179,7 +284,7 @@ export async function runAssistant(
 
     // Extract text content
     const textContent = assistantMessage.content.find(
-      (content): content is MessageContentText => content.type === 'text'
+      (content): content is TextContentBlock => content.type === 'text'
     );
 
     if (!textContent) {
@@ -235,57 +340,68 @@ export async function getMessages(
 }
 
 /**
- * Handle tool calls from the assistant
+ * Handle one round of tool calls from the assistant
+ *
+ * Calls within a round are independent, so they are executed in parallel.
+ * Also used by the Chat Completions provider, whose tool calls have the same shape.
  *
  * @param toolCalls - Array of tool calls from the assistant
  * @param handler - Function to handle each tool call
- * @returns Array of tool outputs
+ * @param onToolCall - Optional callback invoked before each call runs
+ * @returns Array of tool outputs, in the same order as the calls
  */
-async function handleToolCalls(
-  toolCalls: any[],
-  handler: ToolCallHandler
+export async function handleToolCalls(
+  toolCalls: Array<Pick<RequiredActionFunctionToolCall, 'id' | 'function'>>,
+  handler: ToolCallHandler,
+  onToolCall?: (toolName: string, args: any) => void
 ): Promise<Array<{ tool_call_id: string; output: string }>> {
-  const toolOutputs = [];
-
-  for (const toolCall of toolCalls) {
-    console.log('Processing tool call:', toolCall.function.name);
-
-    const functionName = toolCall.function.name;
-    let functionArgs: any;
-
-    try {
-      functionArgs = JSON.parse(toolCall.function.arguments);
-    } catch (parseError) {
-      console.error('Failed to parse tool call arguments:', parseError);
-      toolOutputs.push({
-        tool_call_id: toolCall.id,
-        output: JSON.stringify({
-          error: 'Failed to parse function arguments',
-        }),
-      });
-      continue;
-    }
-
-    try {
-      // Call the handler function
-      const output = await handler(functionName, functionArgs);
+  return Promise.all(
+    toolCalls.map(async (toolCall) => {
+      console.log('Processing tool call:', toolCall.function.name);
+
+      const functionName = toolCall.function.name;
+      let functionArgs: any;
+
+      try {
+        functionArgs = JSON.parse(toolCall.function.arguments);
+      } catch (parseError) {
+        console.error('Failed to parse tool call arguments:', parseError);
+        return {
+          tool_call_id: toolCall.id,
+          output: JSON.stringify({
+            error: 'Failed to parse function arguments',
+          }),
+        };
+      }
 
-      toolOutputs.push({
-        tool_call_id: toolCall.id,
-        output: JSON.stringify(output),
-      });
-    } catch (error) {
-      console.error(`Error executing tool ${functionName}:`, error);
-      toolOutputs.push({
-        tool_call_id: toolCall.id,
-        output: JSON.stringify({
-          error: error instanceof Error ? error.message : 'Tool execution failed',
-        }),
-      });
-    }
-  }
+      try {
+        onToolCall?.(functionName, functionArgs);
+
+        // Call the handler function
+        const output = await handler(functionName, functionArgs, toolCall.id);
+
+        return {
+          tool_call_id: toolCall.id,
+          output: JSON.stringify(output),
+        };
+      } catch (error) {
+        console.error(`Error executing tool ${functionName}:`, error);
+        return {
+          tool_call_id: toolCall.id,
+          output: JSON.stringify({
+            error: error instanceof Error ? error.message : 'Tool execution failed',
+          }),
+        };
+      }
+    })
+  );
+}
 
-  return toolOutputs;
+/**
+ * Whether a run can no longer change state
+ */
+function isTerminalRunStatus(status: Run['status']): boolean {
+  return ['completed', 'failed', 'cancelled', 'expired', 'incomplete'].includes(status);
 }
 
 /**
@@ -295,7 +411,7 @@ async function handleToolCalls(
  */
 export async function deleteThread(threadId: string): Promise<void> {
   try {
-    await openai.beta.threads.del(threadId);
+    await openai.beta.threads.delete(threadId);
     console.log('Deleted thread:', threadId);
   } catch (error) {
     console.error('Error deleting thread:', error);
@@ -314,7 +430,7 @@ export async function deleteThread(threadId: string): Promise<void> {
  */
 export async function getRunStatus(threadId: string, runId: string): Promise<Run> {
   try {
-    const run = await openai.beta.threads.runs.retrieve(threadId, runId);
+    const run = await openai.beta.threads.runs.retrieve(runId, { thread_id: threadId });
     return run;
   } catch (error) {
     console.error('Error getting run status:', error);
@@ -332,7 +448,7 @@ export async function getRunStatus(threadId: string, runId: string): Promise<Run
  */
 export async function cancelRun(threadId: string, runId: string): Promise<void> {
   try {
-    await openai.beta.threads.runs.cancel(threadId, runId);
+    await openai.beta.threads.runs.cancel(runId, { thread_id: threadId });
     console.log('Cancelled run:', runId);
   } catch (error) {
     console.error('Error cancelling run:', error);
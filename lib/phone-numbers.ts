@@ -0,0 +1,206 @@
+// Phone number parsing and validation for the regions we call most, without a phone library
+import { PhoneNumberType } from '@/types';
+
+interface RegionMetadata {
+  /** Country calling code, without the + */
+  callingCode: string;
+  /** Prefix dialled before national numbers and dropped in E.164 (e.g. the UK's 0) */
+  trunkPrefix?: string;
+  /** Valid national number (no trunk prefix) */
+  pattern: RegExp;
+  mobile?: RegExp;
+  landline?: RegExp;
+}
+
+// Keyed by ISO 3166-1 alpha-2 region. NANP numbers can't be told apart as mobile or landline.
+const REGIONS: Record<string, RegionMetadata> = {
+  US: { callingCode: '1', trunkPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  CA: { callingCode: '1', trunkPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  GB: {
+    callingCode: '44',
+    trunkPrefix: '0',
+    pattern: /^[1-9]\d{8,9}$/,
+    mobile: /^7[1-9]\d{8}$/,
+    landline: /^[123]\d{8,9}$/,
+  },
+  IE: {
+    callingCode: '353',
+    trunkPrefix: '0',
+    pattern: /^[1-9]\d{6,9}$/,
+    mobile: /^8[3-9]\d{7}$/,
+    landline: /^[1-79]\d{6,9}$/,
+  },
+  IL: {
+    callingCode: '972',
+    trunkPrefix: '0',
+    pattern: /^[2-9]\d{7,8}$/,
+    mobile: /^5\d{8}$/,
+    landline: /^[2-489]\d{7}$/,
+  },
+  FR: {
+    callingCode: '33',
+    trunkPrefix: '0',
+    pattern: /^[1-9]\d{8}$/,
+    mobile: /^[67]\d{8}$/,
+    landline: /^[1-5]\d{8}$/,
+  },
+  DE: {
+    callingCode: '49',
+    trunkPrefix: '0',
+    pattern: /^[1-9]\d{5,10}$/,
+    mobile: /^1[5-7]\d{8,9}$/,
+    landline: /^[2-9]\d{5,10}$/,
+  },
+  ES: { callingCode: '34', pattern: /^[6-9]\d{8}$/, mobile: /^[67]\d{8}$/, landline: /^[89]\d{8}$/ },
+  IT: { callingCode: '39', pattern: /^[03]\d{5,10}$/, mobile: /^3\d{8,9}$/, landline: /^0\d{5,10}$/ },
+  NL: {
+    callingCode: '31',
+    trunkPrefix: '0',
+    pattern: /^[1-9]\d{8}$/,
+    mobile: /^6\d{8}$/,
+    landline: /^[1-57]\d{8}$/,
+  },
+  AU: {
+    callingCode: '61',
+    trunkPrefix: '0',
+    pattern: /^[2-478]\d{8}$/,
+    mobile: /^4\d{8}$/,
+    landline: /^[2378]\d{8}$/,
+  },
+  IN: {
+    callingCode: '91',
+    trunkPrefix: '0',
+    pattern: /^[1-9]\d{9}$/,
+    mobile: /^[6-9]\d{9}$/,
+    landline: /^[1-5]\d{9}$/,
+  },
+};
+
+// Characters people type around the digits
+const FORMATTING_PATTERN = /[\s().\-\/]/g;
+
+export interface NormalizedPhoneNumber {
+  /** As entered */
+  raw: string;
+  /** E.164, e.g. '+12125551234' */
+  e164: string;
+  /** ISO 3166-1 alpha-2 region, if it's one we know */
+  region?: string;
+  type: PhoneNumberType;
+}
+
+export type PhoneNumberParseResult =
+  | { valid: true; phone: NormalizedPhoneNumber }
+  | { valid: false; error: string };
+
+/**
+ * The region part of a locale, e.g. 'GB' for 'en-GB'
+ */
+export function regionFromLocale(locale?: string | null): string | undefined {
+  const match = locale ? /[-_]([A-Za-z]{2})(?:[-_]|$)/.exec(locale) : null;
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * Parse a phone number in international or national format
+ *
+ * International numbers ('+44 20 7946 0018', '0044...') are checked against
+ * their country's rules when it's one we know, and otherwise only for length.
+ * National numbers ('(212) 555-1234', '050-123-4567') need a default region.
+ *
+ * @param raw - The number as the user gave it
+ * @param defaultRegion - Region for numbers without a country code, e.g. from the user's profile
+ * @returns The E.164 number and its type, or why it isn't valid
+ */
+export function normalizePhoneNumber(raw: string, defaultRegion?: string): PhoneNumberParseResult {
+  const trimmed = (raw || '').trim();
+  let digits = trimmed.replace(FORMATTING_PATTERN, '');
+  const region = defaultRegion?.toUpperCase();
+
+  if (!/^\+?\d+$/.test(digits)) {
+    return { valid: false, error: `"${trimmed}" is not a phone number` };
+  }
+
+  // International format: +CC..., 00CC..., or 011CC... from North America
+  let international = digits.startsWith('+');
+  if (international) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  } else if (digits.startsWith('011') && region && REGIONS[region]?.callingCode === '1') {
+    digits = digits.slice(3);
+    international = true;
+  }
+
+  if (international) {
+    return parseInternational(trimmed, digits, region);
+  }
+
+  if (!region || !REGIONS[region]) {
+    return {
+      valid: false,
+      error: `Include the country code for "${trimmed}" (e.g. +12125551234)`,
+    };
+  }
+
+  return parseNational(trimmed, digits, region);
+}
+
+function parseInternational(raw: string, digits: string, defaultRegion?: string): PhoneNumberParseResult {
+  for (const length of [1, 2, 3]) {
+    const callingCode = digits.slice(0, length);
+    const regions = Object.keys(REGIONS).filter((code) => REGIONS[code].callingCode === callingCode);
+    if (regions.length === 0) continue;
+
+    // Numbers shared by several regions (+1) are attributed to the user's own if it's one of them
+    const region = defaultRegion && regions.includes(defaultRegion) ? defaultRegion : regions[0];
+    let national = digits.slice(length);
+
+    // '+44 (0)20 ...' includes the trunk prefix that E.164 leaves out
+    const { trunkPrefix, pattern } = REGIONS[region];
+    if (trunkPrefix === '0' && national.startsWith('0') && !pattern.test(national)) {
+      national = national.slice(1);
+    }
+
+    return parseNational(raw, national, region, true);
+  }
+
+  // Not a region we have rules for: check the E.164 length only
+  if (!/^[1-9]\d{7,14}$/.test(digits)) {
+    return { valid: false, error: `"${raw}" is not a valid international number (8-15 digits)` };
+  }
+  return { valid: true, phone: { raw, e164: `+${digits}`, type: 'unknown' } };
+}
+
+function parseNational(
+  raw: string,
+  digits: string,
+  region: string,
+  hasCallingCode: boolean = false
+): PhoneNumberParseResult {
+  const metadata = REGIONS[region];
+  let national = digits;
+
+  if (!hasCallingCode && metadata.trunkPrefix && national.startsWith(metadata.trunkPrefix)) {
+    const withoutTrunk = national.slice(metadata.trunkPrefix.length);
+    if (metadata.pattern.test(withoutTrunk)) {
+      national = withoutTrunk;
+    }
+  }
+
+  if (!metadata.pattern.test(national)) {
+    return { valid: false, error: `"${raw}" is not a valid ${region} phone number` };
+  }
+
+  const type: PhoneNumberType = metadata.mobile?.test(national)
+    ? 'mobile'
+    : metadata.landline?.test(national)
+      ? 'landline'
+      : 'unknown';
+
+  return {
+    valid: true,
+    phone: { raw, e164: `+${metadata.callingCode}${national}`, region, type },
+  };
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ChatStreamEvent } from '@/types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -18,21 +19,37 @@ export const getServerSupabase = () => {
 };
 
 // Helper function to subscribe to real-time messages
+// `onUpdate` receives messages changed in place, e.g. a booking's call progress
 export const subscribeToMessages = (
   chatId: string,
-  callback: (payload: any) => void
+  callback: (payload: any) => void,
+  onUpdate?: (payload: any) => void
 ) => {
-  return supabase
+  const filter = { schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` };
+  const channel = supabase
     .channel(`messages:${chatId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'messages',
-        filter: `chat_id=eq.${chatId}`
-      },
-      callback
+    .on('postgres_changes', { event: 'INSERT', ...filter }, callback);
+
+  if (onUpdate) {
+    channel.on('postgres_changes', { event: 'UPDATE', ...filter }, onUpdate);
+  }
+
+  return channel.subscribe();
+};
+
+// Broadcast channel carrying a chat's in-progress assistant reply
+export const chatStreamChannel = (chatId: string) => `chat-stream:${chatId}`;
+export const CHAT_STREAM_EVENT = 'chat-stream';
+
+// Helper function to subscribe to streaming assistant replies
+export const subscribeToChatStream = (
+  chatId: string,
+  callback: (event: ChatStreamEvent) => void
+) => {
+  return supabase
+    .channel(chatStreamChannel(chatId))
+    .on('broadcast', { event: CHAT_STREAM_EVENT }, ({ payload }) =>
+      callback(payload as ChatStreamEvent)
     )
     .subscribe();
 };
@@ -0,0 +1,165 @@
+// Date and time helpers for IANA time zones, built on Intl (no date library needed)
+
+export interface ZonedDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is an IANA time zone this runtime knows, e.g. 'Europe/London'
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes (e.g. 120 for UTC+2)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const local = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * The instant a wall-clock time in a time zone refers to
+ *
+ * Out-of-range fields roll over (day 32 is the 1st of the next month). Times
+ * skipped by a DST change resolve to the hour after.
+ */
+export function zonedDateTimeToUtc(local: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+  // The offset can differ either side of a DST change, so check it at the result
+  const firstGuess = asUtc - getTimeZoneOffsetMinutes(new Date(asUtc), timeZone) * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(asUtc - offset * 60000);
+}
+
+/**
+ * ISO 8601 string in a time zone's local time with its offset, e.g. '2025-02-15T19:30:00+01:00'
+ */
+export function toZonedISOString(date: Date, timeZone: string): string {
+  const local = getZonedDateTime(date, timeZone);
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const sign = offset < 0 ? '-' : '+';
+  const offsetText = `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+  return (
+    `${local.year}-${pad(local.month)}-${pad(local.day)}` +
+    `T${pad(local.hour)}:${pad(local.minute)}:00${offsetText}`
+  );
+}
+
+/**
+ * Format an instant as local time in a time zone, e.g. 'Sat, Feb 15, 11:00 AM'
+ *
+ * @param locale - BCP 47 locale for the wording and order (defaults to en-US)
+ */
+export function formatInTimeZone(date: Date, timeZone: string, locale: string = 'en-US'): string {
+  return date.toLocaleString(locale, {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/;
+
+// The date and time fields at the start of any ISO-like value, with or without an offset
+const DATE_TIME_FIELDS_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/;
+
+/**
+ * Parse a date and time, reading it as wall-clock time in a time zone unless
+ * it carries its own offset
+ *
+ * Impossible dates and times (Feb 30, month 13, 25:00) are rejected rather
+ * than rolled over to another day.
+ *
+ * @param value - e.g. '2025-02-15 19:30', '2025-02-15T19:30:00+01:00' or '2025-02-15' (midnight)
+ * @param timeZone - Zone for values without an offset; the server's zone if omitted
+ * @returns The instant, or null if the value can't be parsed
+ */
+export function parseDateTimeInZone(value: string, timeZone?: string): Date | null {
+  const trimmed = value.trim();
+  const fields = DATE_TIME_FIELDS_PATTERN.exec(trimmed);
+  if (fields && !isRealDateTime(fields.slice(1).map((field) => Number(field || 0)))) {
+    return null;
+  }
+
+  const match = LOCAL_DATE_TIME_PATTERN.exec(trimmed);
+  if (match && timeZone) {
+    const [, year, month, day, hour = '0', minute = '0'] = match;
+    return zonedDateTimeToUtc(
+      { year: Number(year), month: Number(month), day: Number(day), hour: Number(hour), minute: Number(minute) },
+      timeZone
+    );
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isFinite(parsed) ? new Date(parsed) : null;
+}
+
+// Whether [year, month, day, hour, minute] name a real calendar date and time of day
+function isRealDateTime([year, month, day, hour, minute]: number[]): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hour < 24 &&
+    minute < 60
+  );
+}
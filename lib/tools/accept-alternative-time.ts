@@ -0,0 +1,48 @@
+import { acceptAlternativeTime } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { AssistantTool, ToolContext } from './registry';
+
+interface AcceptAlternativeTimeArgs {
+  bookingId: string;
+  dateTime: string;
+}
+
+export const acceptAlternativeTimeTool: AssistantTool<AcceptAlternativeTimeArgs> = {
+  name: 'accept_alternative_time',
+  description:
+    'Accepts one of the alternative times a business offered for a booking it could not take, and calls the business back to confirm that time. Only use it after the user has chosen one of the offered times.',
+  parameters: {
+    type: 'object',
+    properties: {
+      bookingId: {
+        type: 'string',
+        description: 'The UUID of the booking the alternatives were offered for',
+      },
+      dateTime: {
+        type: 'string',
+        description: "The chosen time, exactly as offered, in the business's local time (YYYY-MM-DD HH:MM)",
+      },
+    },
+    required: ['bookingId', 'dateTime'],
+  },
+  status: () => 'Calling back to confirm the new time…',
+  handler: handleAcceptAlternativeTime,
+};
+
+/**
+ * Handle accept_alternative_time tool
+ */
+async function handleAcceptAlternativeTime(
+  args: AcceptAlternativeTimeArgs,
+  { userId }: ToolContext
+): Promise<any> {
+  try {
+    return await acceptAlternativeTime({ bookingId: args.bookingId, userId, dateTime: args.dateTime });
+  } catch (error) {
+    // Let the assistant sort out a wrong time or a booking that already moved on with the user
+    if (error instanceof BookingRequestError && error.status < 500) {
+      return error.toJSON();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,73 @@
+import { requestBookingCancellation } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { AssistantTool, ToolContext } from './registry';
+
+interface CancelBookingArgs {
+  bookingId: string;
+  reason?: string;
+}
+
+export const cancelBookingTool: AssistantTool<CancelBookingArgs> = {
+  name: 'cancel_booking',
+  description:
+    "Cancels one of the user's bookings. If the business already confirmed it, calls them back to cancel (giving the name, confirmation number and booked time); otherwise it's cancelled without a call. Only use it after the user has asked to cancel that booking.",
+  parameters: {
+    type: 'object',
+    properties: {
+      bookingId: {
+        type: 'string',
+        description: 'The UUID of the booking to cancel',
+      },
+      reason: {
+        type: 'string',
+        description: 'Why the user is cancelling, if they said and are happy for the business to hear it (optional)',
+      },
+    },
+    required: ['bookingId'],
+  },
+  status: () => 'Setting up the call to cancel…',
+  handler: handleCancelBooking,
+};
+
+/**
+ * Handle cancel_booking tool
+ */
+async function handleCancelBooking(
+  args: CancelBookingArgs,
+  { chatId, userId, toolCallId }: ToolContext
+): Promise<any> {
+  try {
+    // Keyed on the tool call, so a retried run doesn't call twice
+    const result = await requestBookingCancellation(
+      { bookingId: args.bookingId, chatId, userId, reason: args.reason },
+      { idempotencyKey: toolCallId ? `tool-call:${toolCallId}` : undefined, requireApproval: true }
+    );
+
+    switch (result.status) {
+      case 'cancelled':
+        return {
+          ...result,
+          message: 'Nothing had been agreed with the business yet, so the booking was cancelled without a call.',
+        };
+      case 'awaiting_approval':
+        return {
+          ...result,
+          message:
+            "Nothing has been called yet: the user is shown the call to approve or cancel. Tell them to approve it; don't start it again. You'll be notified when the call completes.",
+        };
+      case 'scheduled':
+        return {
+          ...result,
+          message: `Scheduled the call to cancel for ${result.scheduledForLocal}. You'll be notified when complete.`,
+        };
+      default:
+        return { ...result, message: "Calling the business to cancel. You'll be notified when complete." };
+    }
+  } catch (error) {
+    // E.g. a call about this booking already going on: let the assistant explain
+    if (error instanceof BookingRequestError && error.status < 500) {
+      return error.toJSON();
+    }
+    throw error;
+  }
+}
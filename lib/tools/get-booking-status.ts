@@ -0,0 +1,47 @@
+import { getBooking } from '@/lib/bookings';
+import { AssistantTool, ToolContext } from './registry';
+
+interface GetBookingStatusArgs {
+  bookingId: string;
+}
+
+export const getBookingStatusTool: AssistantTool<GetBookingStatusArgs> = {
+  name: 'get_booking_status',
+  description:
+    'Gets the current status of a booking by its ID. Use this to check if a call has completed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      bookingId: {
+        type: 'string',
+        description: 'The UUID of the booking to check',
+      },
+    },
+    required: ['bookingId'],
+  },
+  status: () => 'Checking booking status…',
+  handler: handleGetBookingStatus,
+};
+
+/**
+ * Handle get_booking_status tool
+ */
+async function handleGetBookingStatus(
+  args: GetBookingStatusArgs,
+  { chatId }: ToolContext
+): Promise<any> {
+  const { bookingId } = args;
+
+  const booking = await getBooking(bookingId, { chatId });
+  if (!booking) {
+    return { error: 'Booking not found' };
+  }
+
+  return {
+    bookingId: booking.id,
+    status: booking.status,
+    bookingType: booking.booking_type,
+    details: booking.details,
+    result: booking.result,
+  };
+}
@@ -0,0 +1,29 @@
+import { registerTool } from './registry';
+import { startBookingCallTool } from './start-booking-call';
+import { getBookingStatusTool } from './get-booking-status';
+import { acceptAlternativeTimeTool } from './accept-alternative-time';
+import { startBookingCampaignTool } from './start-booking-campaign';
+import { cancelBookingTool } from './cancel-booking';
+import { modifyBookingTool } from './modify-booking';
+import { listMyBookingsTool } from './list-my-bookings';
+import { searchBookingsTool } from './search-bookings';
+
+// Every tool the assistant can call. Add new tools here.
+registerTool(startBookingCallTool);
+registerTool(getBookingStatusTool);
+registerTool(acceptAlternativeTimeTool);
+registerTool(startBookingCampaignTool);
+registerTool(cancelBookingTool);
+registerTool(modifyBookingTool);
+registerTool(listMyBookingsTool);
+registerTool(searchBookingsTool);
+
+export {
+  dispatchToolCall,
+  getAssistantTools,
+  getTool,
+  getToolStatus,
+  listTools,
+  validateArguments,
+} from './registry';
+export type { AssistantTool, JSONSchemaObject, JSONSchemaProperty, ToolContext } from './registry';
@@ -0,0 +1,111 @@
+import {
+  BOOKING_TRANSITIONS,
+  FINAL_BOOKING_STATUSES,
+  describeBookingDetails,
+  getBookedDetails,
+  getBusinessName,
+  getLocalBookingTime,
+  searchBookings,
+} from '@/lib/bookings';
+import { AssistantTool, ToolContext } from './registry';
+import { Booking, BookingStatus, BookingType } from '@/types';
+
+interface ListMyBookingsArgs {
+  when?: 'upcoming' | 'past';
+  bookingType?: BookingType;
+  statuses?: BookingStatus[];
+  limit?: number;
+}
+
+export const BOOKING_STATUSES = Object.keys(BOOKING_TRANSITIONS) as BookingStatus[];
+
+// Bookings that haven't failed or been cancelled
+const LIVE_BOOKING_STATUSES = BOOKING_STATUSES.filter((status) => !FINAL_BOOKING_STATUSES.includes(status));
+
+// The user has too many bookings to check every one against the dates
+export const PARTIAL_RESULTS_MESSAGE =
+  "Only the user's most recent bookings were searched; older bookings may be missing. Narrow the search by type, status or business name if the booking isn't here.";
+
+export const listMyBookingsTool: AssistantTool<ListMyBookingsArgs> = {
+  name: 'list_my_bookings',
+  description:
+    "Lists the user's bookings from all their chats: upcoming ones soonest first, or past ones latest first. Use it to answer questions like \"what have I got booked?\" and to find the booking ID when the user refers to a booking by what it is (\"my taxi tomorrow\").",
+  parameters: {
+    type: 'object',
+    properties: {
+      when: {
+        type: 'string',
+        enum: ['upcoming', 'past'],
+        description: 'Bookings still to come, or ones whose time has passed',
+        default: 'upcoming',
+      },
+      bookingType: {
+        type: 'string',
+        enum: ['restaurant', 'hotel', 'taxi'],
+        description: 'Only bookings of this type (optional)',
+      },
+      statuses: {
+        type: 'array',
+        items: { type: 'string', enum: BOOKING_STATUSES },
+        description:
+          'Only bookings in these statuses, e.g. ["completed"] for confirmed bookings (optional). Upcoming bookings leave out failed and cancelled ones unless asked for',
+      },
+      limit: {
+        type: 'integer',
+        description: 'Most bookings to return, 1 to 50',
+        default: 10,
+      },
+    },
+  },
+  validate: ({ limit }) => (limit !== undefined && (limit < 1 || limit > 50) ? 'limit must be between 1 and 50' : null),
+  status: () => 'Looking up your bookings…',
+  handler: handleListMyBookings,
+};
+
+/**
+ * A booking as the assistant gets it in a list
+ *
+ * @param booking - The booking
+ * @param chatId - The chat asking, to say whether the booking was made in it
+ */
+export function toBookingListItem(booking: Booking, chatId: string) {
+  const booked = getBookedDetails(booking);
+  return {
+    bookingId: booking.id,
+    status: booking.status,
+    bookingType: booking.booking_type,
+    businessName: getBusinessName(booking),
+    time: getLocalBookingTime(booking),
+    timeZone: booked.timeZone,
+    summary: describeBookingDetails(booked),
+    confirmationNumber: booking.result?.confirmationNumber,
+    inThisChat: booking.chat_id === chatId,
+  };
+}
+
+/**
+ * Handle list_my_bookings tool
+ */
+async function handleListMyBookings(
+  { when = 'upcoming', bookingType, statuses, limit = 10 }: ListMyBookingsArgs,
+  { chatId, userId }: ToolContext
+): Promise<any> {
+  const { bookings, partial } = await searchBookings({
+    userId,
+    bookingType,
+    statuses: statuses?.length ? statuses : when === 'upcoming' ? LIVE_BOOKING_STATUSES : undefined,
+    excludeFollowUps: true,
+    when,
+    limit,
+  });
+
+  return {
+    when,
+    count: bookings.length,
+    bookings: bookings.map((booking) => toBookingListItem(booking, chatId)),
+    ...(partial && {
+      partial: true,
+      message: PARTIAL_RESULTS_MESSAGE,
+    }),
+  };
+}
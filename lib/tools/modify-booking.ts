@@ -0,0 +1,105 @@
+import { requestBookingChange } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { AssistantTool, ToolContext } from './registry';
+import { startBookingCallTool } from './start-booking-call';
+import { ModifyBookingRequest } from '@/types';
+
+interface ModifyBookingArgs {
+  bookingId: string;
+  customerName?: string;
+  specialRequests?: string;
+  dateTime?: string;
+  partySize?: number;
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+  roomType?: string;
+  pickup?: string;
+  dropoff?: string;
+  passengers?: number;
+  luggage?: number;
+}
+
+// Described as for a new booking; the business and its number can't change
+const {
+  customerName,
+  specialRequests,
+  dateTime,
+  partySize,
+  checkIn,
+  checkOut,
+  guests,
+  roomType,
+  pickup,
+  dropoff,
+  passengers,
+  luggage,
+} = startBookingCallTool.parameters.properties;
+
+export const modifyBookingTool: AssistantTool<ModifyBookingArgs> = {
+  name: 'modify_booking',
+  description:
+    "Changes a booking the business has confirmed (time, dates, party size, pickup, special requests, ...) by calling them back with the name, confirmation number and booked time. Pass only the fields that change. If the business can't make the change, the booking stays as it was. To book somewhere else instead, cancel this booking and start a new one.",
+  parameters: {
+    type: 'object',
+    properties: {
+      bookingId: {
+        type: 'string',
+        description: 'The UUID of the booking to change',
+      },
+      customerName,
+      specialRequests,
+      dateTime,
+      partySize,
+      checkIn,
+      checkOut,
+      guests,
+      roomType,
+      pickup,
+      dropoff,
+      passengers,
+      luggage,
+    },
+    required: ['bookingId'],
+  },
+  status: () => 'Setting up the call to change the booking…',
+  handler: handleModifyBooking,
+};
+
+/**
+ * Handle modify_booking tool
+ */
+async function handleModifyBooking(
+  { bookingId, ...changes }: ModifyBookingArgs,
+  { chatId, userId, toolCallId }: ToolContext
+): Promise<any> {
+  try {
+    // Keyed on the tool call, so a retried run doesn't call twice
+    const result = await requestBookingChange(
+      { bookingId, chatId, userId, changes } as ModifyBookingRequest,
+      { idempotencyKey: toolCallId ? `tool-call:${toolCallId}` : undefined, requireApproval: true }
+    );
+
+    switch (result.status) {
+      case 'awaiting_approval':
+        return {
+          ...result,
+          message:
+            "Nothing has been called yet: the user is shown the change to approve, edit or cancel. Tell them to approve it; don't start it again. You'll be notified when the call completes.",
+        };
+      case 'scheduled':
+        return {
+          ...result,
+          message: `Scheduled the call to change the booking for ${result.scheduledForLocal}. You'll be notified when complete.`,
+        };
+      default:
+        return { ...result, message: "Calling the business to change the booking. You'll be notified when complete." };
+    }
+  } catch (error) {
+    // E.g. an invalid new time, or a booking that isn't confirmed: let the assistant sort it out
+    if (error instanceof BookingRequestError && error.status < 500) {
+      return error.toJSON();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,209 @@
+import type { FunctionTool } from 'openai/resources/beta/assistants';
+
+// Subset of JSON Schema used to describe tool parameters
+export interface JSONSchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: readonly (string | number)[];
+  default?: unknown;
+  items?: JSONSchemaProperty;
+  properties?: Record<string, JSONSchemaProperty>;
+  required?: string[];
+}
+
+export interface JSONSchemaObject {
+  type: 'object';
+  properties: Record<string, JSONSchemaProperty>;
+  required?: string[];
+}
+
+// Who the tool is running for
+export interface ToolContext {
+  chatId: string;
+  userId: string;
+  /** The model's ID for this tool call, if the provider gives one */
+  toolCallId?: string;
+}
+
+export interface AssistantTool<TArgs = any> {
+  /** Function name the assistant calls */
+  name: string;
+  /** Description shown to the assistant */
+  description: string;
+  /** JSON schema of the arguments */
+  parameters: JSONSchemaObject;
+  /** Extra checks beyond the schema; return an error message or null */
+  validate?: (args: TArgs) => string | null;
+  /** Status shown to the user while the tool runs */
+  status?: (args: TArgs) => string;
+  /** Execute the tool; the result is returned to the assistant as JSON */
+  handler: (args: TArgs, context: ToolContext) => Promise<any>;
+}
+
+const tools = new Map<string, AssistantTool>();
+
+/**
+ * Register a tool so the assistant can call it
+ *
+ * Registering the same tool again (e.g. when dev hot reload re-runs the tool
+ * modules) replaces it. A different tool under a name that's taken is an
+ * error everywhere, so one tool can't quietly shadow another; after changing
+ * a tool's description or parameters in development, restart the server.
+ *
+ * @param tool - The tool definition
+ */
+export function registerTool<TArgs>(tool: AssistantTool<TArgs>): void {
+  const existing = tools.get(tool.name);
+  if (existing && !isSameTool(existing, tool)) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+  tools.set(tool.name, tool as AssistantTool);
+}
+
+// The same object, or a re-run of the module that defined it
+function isSameTool(a: AssistantTool, b: AssistantTool<any>): boolean {
+  return (
+    a === b ||
+    (a.description === b.description && JSON.stringify(a.parameters) === JSON.stringify(b.parameters))
+  );
+}
+
+/**
+ * Look up a registered tool by name
+ */
+export function getTool(name: string): AssistantTool | undefined {
+  return tools.get(name);
+}
+
+/**
+ * All registered tools, in registration order
+ */
+export function listTools(): AssistantTool[] {
+  return Array.from(tools.values());
+}
+
+/**
+ * Tool definitions in the format expected by the Assistants API
+ */
+export function getAssistantTools(): FunctionTool[] {
+  return listTools().map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as unknown as Record<string, unknown>,
+    },
+  }));
+}
+
+/**
+ * Human-readable status shown to the user while a tool runs
+ */
+export function getToolStatus(name: string, args: any): string {
+  return tools.get(name)?.status?.(args) || 'Working on it…';
+}
+
+/**
+ * Validate and execute a tool call from the assistant
+ *
+ * Errors are returned as `{ error }` so the assistant can correct itself.
+ *
+ * @param name - The function name the assistant called
+ * @param args - The parsed arguments
+ * @param context - Chat and user the call belongs to
+ * @returns The tool output
+ */
+export async function dispatchToolCall(
+  name: string,
+  args: any,
+  context: ToolContext
+): Promise<any> {
+  const tool = tools.get(name);
+  if (!tool) {
+    console.warn('Unknown tool call:', name);
+    return { error: `Unknown function: ${name}` };
+  }
+
+  const validationError =
+    validateArguments(tool.parameters, args) ?? tool.validate?.(args) ?? null;
+  if (validationError) {
+    console.warn(`Invalid arguments for ${name}:`, validationError);
+    return { error: `Invalid arguments: ${validationError}` };
+  }
+
+  return tool.handler(args, context);
+}
+
+/**
+ * Check arguments against a tool's parameter schema
+ *
+ * @returns An error message, or null if the arguments are valid
+ */
+export function validateArguments(schema: JSONSchemaObject, args: any): string | null {
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return 'arguments must be an object';
+  }
+
+  for (const key of schema.required || []) {
+    if (args[key] === undefined || args[key] === null || args[key] === '') {
+      return `${key} is required`;
+    }
+  }
+
+  for (const [key, value] of Object.entries(args)) {
+    const property = schema.properties[key];
+    if (!property || value === undefined || value === null) continue;
+
+    const error = validateValue(key, property, value);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+function validateValue(key: string, property: JSONSchemaProperty, value: unknown): string | null {
+  switch (property.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${key} must be a string`;
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) return `${key} must be a number`;
+      break;
+
+    case 'integer':
+      if (!Number.isInteger(value)) return `${key} must be an integer`;
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${key} must be a boolean`;
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) return `${key} must be an array`;
+      if (property.items) {
+        for (let index = 0; index < value.length; index++) {
+          const error = validateValue(`${key}[${index}]`, property.items, value[index]);
+          if (error) return error;
+        }
+      }
+      break;
+
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return `${key} must be an object`;
+      if (property.properties) {
+        const error = validateArguments(
+          { type: 'object', properties: property.properties, required: property.required },
+          value
+        );
+        if (error) return `${key}.${error}`;
+      }
+      break;
+  }
+
+  if (property.enum && !property.enum.includes(value as string | number)) {
+    return `${key} must be one of: ${property.enum.join(', ')}`;
+  }
+
+  return null;
+}
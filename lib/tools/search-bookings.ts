@@ -0,0 +1,96 @@
+import { searchBookings } from '@/lib/bookings';
+import { AssistantTool, ToolContext } from './registry';
+import { BOOKING_STATUSES, PARTIAL_RESULTS_MESSAGE, toBookingListItem } from './list-my-bookings';
+import { BookingStatus, BookingType } from '@/types';
+
+interface SearchBookingsArgs {
+  businessName?: string;
+  from?: string;
+  to?: string;
+  bookingType?: BookingType;
+  statuses?: BookingStatus[];
+  limit?: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/;
+
+export const searchBookingsTool: AssistantTool<SearchBookingsArgs> = {
+  name: 'search_bookings',
+  description:
+    "Searches the user's bookings from all their chats by business name and/or date range, e.g. \"what's booked for Friday?\" or \"my booking at Luigi's\". Bookings in a date range come soonest first. Give at least one of businessName, from or to.",
+  parameters: {
+    type: 'object',
+    properties: {
+      businessName: {
+        type: 'string',
+        description: "Part of the business's name, any case (optional)",
+      },
+      from: {
+        type: 'string',
+        description:
+          "Bookings starting on or after this date or time, YYYY-MM-DD or YYYY-MM-DD HH:MM in the business's local time (optional)",
+      },
+      to: {
+        type: 'string',
+        description:
+          'Bookings starting on or before this date (the whole day) or time, YYYY-MM-DD or YYYY-MM-DD HH:MM (optional). For a single day, give the same date as from',
+      },
+      bookingType: {
+        type: 'string',
+        enum: ['restaurant', 'hotel', 'taxi'],
+        description: 'Only bookings of this type (optional)',
+      },
+      statuses: {
+        type: 'array',
+        items: { type: 'string', enum: BOOKING_STATUSES },
+        description: 'Only bookings in these statuses, e.g. ["completed"] for confirmed bookings (optional)',
+      },
+      limit: {
+        type: 'integer',
+        description: 'Most bookings to return, 1 to 50',
+        default: 10,
+      },
+    },
+  },
+  validate: ({ businessName, from, to, limit }) => {
+    if (!businessName?.trim() && !from && !to) {
+      return 'give businessName, from or to';
+    }
+    for (const [key, value] of Object.entries({ from, to })) {
+      if (value !== undefined && !DATE_PATTERN.test(value.trim())) {
+        return `${key} must be YYYY-MM-DD or YYYY-MM-DD HH:MM`;
+      }
+    }
+    return limit !== undefined && (limit < 1 || limit > 50) ? 'limit must be between 1 and 50' : null;
+  },
+  status: () => 'Searching your bookings…',
+  handler: handleSearchBookings,
+};
+
+/**
+ * Handle search_bookings tool
+ */
+async function handleSearchBookings(
+  { businessName, from, to, bookingType, statuses, limit = 10 }: SearchBookingsArgs,
+  { chatId, userId }: ToolContext
+): Promise<any> {
+  const { bookings, partial } = await searchBookings({
+    userId,
+    bookingType,
+    statuses: statuses?.length ? statuses : undefined,
+    excludeFollowUps: true,
+    businessName: businessName?.trim() || undefined,
+    from: from?.trim(),
+    to: to?.trim(),
+    limit,
+  });
+
+  return {
+    count: bookings.length,
+    bookings: bookings.map((booking) => toBookingListItem(booking, chatId)),
+    ...(partial && {
+      partial: true,
+      message: PARTIAL_RESULTS_MESSAGE,
+    }),
+  };
+}
@@ -0,0 +1,222 @@
+import { startBooking } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { AssistantTool, ToolContext } from './registry';
+import { BookingType, StartBookingRequest, StartBookingResponse } from '@/types';
+
+interface StartBookingCallArgs {
+  bookingType?: BookingType;
+  businessName: string;
+  phoneNumber: string;
+  customerName: string;
+  specialRequests?: string;
+  // Restaurant
+  dateTime?: string;
+  partySize?: number;
+  // Hotel
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+  roomType?: string;
+  // Taxi (also uses dateTime)
+  pickup?: string;
+  dropoff?: string;
+  passengers?: number;
+  luggage?: number;
+  autoRetry?: boolean;
+  businessTimeZone?: string;
+  callNotBefore?: string;
+  callNotAfter?: string;
+  callAt?: string;
+  allowDuplicate?: boolean;
+}
+
+export const startBookingCallTool: AssistantTool<StartBookingCallArgs> = {
+  name: 'start_booking_call',
+  description:
+    'Initiates a phone call to make a booking reservation at a restaurant, hotel, or for a taxi service. Only call this function when you have confirmed all required information with the user. Fill in the fields for the booking type: dateTime and partySize for a restaurant; checkIn, checkOut and guests for a hotel; dateTime, pickup, dropoff and passengers for a taxi.',
+  parameters: {
+    type: 'object',
+    properties: {
+      bookingType: {
+        type: 'string',
+        enum: ['restaurant', 'hotel', 'taxi'],
+        description: 'Type of booking being made',
+        default: 'restaurant',
+      },
+      businessName: {
+        type: 'string',
+        description: 'The name of the restaurant, hotel, or taxi company to call',
+      },
+      phoneNumber: {
+        type: 'string',
+        description:
+          "Phone number as the user gave it, e.g. (212) 555-1234 or +972501234567. Include the country code if it's not in the user's own country",
+      },
+      customerName: {
+        type: 'string',
+        description: 'Name of the customer making the booking',
+      },
+      specialRequests: {
+        type: 'string',
+        description: 'Any special requests or notes for the booking (optional)',
+      },
+      dateTime: {
+        type: 'string',
+        description:
+          'Restaurant and taxi: reservation or pickup time in format YYYY-MM-DD HH:MM (e.g., 2025-01-15 19:00)',
+      },
+      partySize: {
+        type: 'number',
+        description: 'Restaurant: number of people for the reservation',
+      },
+      checkIn: {
+        type: 'string',
+        description: 'Hotel: check-in date, YYYY-MM-DD (optionally with arrival time, YYYY-MM-DD HH:MM)',
+      },
+      checkOut: {
+        type: 'string',
+        description: 'Hotel: check-out date, YYYY-MM-DD',
+      },
+      guests: {
+        type: 'number',
+        description: 'Hotel: number of guests',
+      },
+      roomType: {
+        type: 'string',
+        description: 'Hotel: room preference, e.g. double, twin, suite (optional)',
+      },
+      pickup: {
+        type: 'string',
+        description: 'Taxi: pickup address',
+      },
+      dropoff: {
+        type: 'string',
+        description: 'Taxi: destination address',
+      },
+      passengers: {
+        type: 'number',
+        description: 'Taxi: number of passengers',
+      },
+      luggage: {
+        type: 'number',
+        description: 'Taxi: number of bags (optional)',
+      },
+      autoRetry: {
+        type: 'boolean',
+        description:
+          'Automatically call again later if the line is busy or nobody answers. Set to false only if the user asked not to retry.',
+        default: true,
+      },
+      businessTimeZone: {
+        type: 'string',
+        description:
+          "IANA time zone of the business (e.g. Europe/London), so it's only called during local business hours",
+      },
+      callNotBefore: {
+        type: 'string',
+        description: 'Earliest local time to call the business, HH:MM (e.g. 11:00 if they open at 11am). Optional; defaults by booking type',
+      },
+      callNotAfter: {
+        type: 'string',
+        description: 'Latest local time to call the business, HH:MM. Optional; defaults by booking type',
+      },
+      callAt: {
+        type: 'string',
+        description:
+          "Place the call at this time instead of now, YYYY-MM-DD HH:MM in the business's time zone (optional)",
+      },
+      allowDuplicate: {
+        type: 'boolean',
+        description:
+          'Book even though the user already has an active booking at this business for about the same time. Only set after the user confirms they want another one.',
+        default: false,
+      },
+    },
+    required: ['bookingType', 'businessName', 'phoneNumber', 'customerName'],
+  },
+  status: (args) => `Setting up the call to ${args.businessName || 'the business'}…`,
+  handler: handleStartBookingCall,
+};
+
+/**
+ * Handle start_booking_call tool
+ */
+async function handleStartBookingCall(
+  args: StartBookingCallArgs,
+  { chatId, userId, toolCallId }: ToolContext
+): Promise<any> {
+  const {
+    bookingType = 'restaurant',
+    businessName,
+    autoRetry = true,
+    businessTimeZone,
+    callNotBefore,
+    callNotAfter,
+    callAt,
+    ...details
+  } = args;
+
+  // The per-type fields are checked by the booking service
+  const request = {
+    ...details,
+    chatId,
+    userId,
+    bookingType,
+    businessName,
+    retryPolicy: autoRetry ? undefined : { maxAttempts: 1 },
+    callWindow: {
+      timeZone: businessTimeZone,
+      notBefore: callNotBefore,
+      notAfter: callNotAfter,
+    },
+    callAt,
+  } as StartBookingRequest;
+
+  let result: StartBookingResponse;
+  try {
+    // Keyed on the tool call, so a retried run doesn't book (or call) twice
+    result = await startBooking(request, {
+      idempotencyKey: toolCallId ? `tool-call:${toolCallId}` : undefined,
+      requireApproval: true,
+    });
+  } catch (error) {
+    if (error instanceof BookingRequestError && error.extra.duplicateBookingId) {
+      return {
+        success: false,
+        duplicate: true,
+        existingBookingId: error.extra.duplicateBookingId,
+        message: `${error.details} Ask the user whether they want a second booking before calling again with allowDuplicate.`,
+      };
+    }
+    throw error;
+  }
+
+  if (result.status === 'awaiting_approval') {
+    return {
+      success: true,
+      status: 'awaiting_approval',
+      bookingId: result.bookingId,
+      bookingTime: result.bookingTime,
+      message: `Nothing has been called yet: the user is shown the details to approve, edit or cancel. Tell them to check and approve the call to ${businessName}; don't start it again. You'll be notified when the call completes.`,
+    };
+  }
+
+  if (result.status === 'scheduled') {
+    return {
+      success: true,
+      status: 'scheduled',
+      bookingId: result.bookingId,
+      bookingTime: result.bookingTime,
+      scheduledFor: result.scheduledForLocal,
+      message: `Scheduled a call to ${businessName} for ${result.scheduledForLocal}. You'll be notified when complete.`,
+    };
+  }
+
+  return {
+    success: true,
+    callId: result.callId,
+    bookingId: result.bookingId,
+    bookingTime: result.bookingTime,
+    message: `Started calling ${businessName}. You'll be notified when complete.`,
+  };
+}
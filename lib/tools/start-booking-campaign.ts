@@ -0,0 +1,152 @@
+import { MAX_CAMPAIGN_CANDIDATES, MAX_CAMPAIGN_PARALLELISM, startBookingCampaign } from '@/lib/bookings';
+import { BookingRequestError } from '@/lib/errors';
+import { AssistantTool, ToolContext } from './registry';
+import { startBookingCallTool } from './start-booking-call';
+import { BookingType, StartCampaignRequest } from '@/types';
+
+interface StartBookingCampaignArgs {
+  bookingType?: BookingType;
+  candidates: Array<{ businessName: string; phoneNumber: string; businessTimeZone?: string }>;
+  parallelism?: number;
+  customerName: string;
+  specialRequests?: string;
+  dateTime?: string;
+  partySize?: number;
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+  roomType?: string;
+  pickup?: string;
+  dropoff?: string;
+  passengers?: number;
+  luggage?: number;
+  businessTimeZone?: string;
+  callNotBefore?: string;
+  callNotAfter?: string;
+  callAt?: string;
+}
+
+// The booking fields are the same as for a single call; the businesses come from candidates
+const {
+  businessName: _businessName,
+  phoneNumber: _phoneNumber,
+  autoRetry: _autoRetry,
+  allowDuplicate: _allowDuplicate,
+  ...bookingProperties
+} = startBookingCallTool.parameters.properties;
+
+export const startBookingCampaignTool: AssistantTool<StartBookingCampaignArgs> = {
+  name: 'start_booking_campaign',
+  description:
+    'Tries the same booking at several businesses in order of preference, calling the next one whenever a business can\'t take it, and stops at the first one that confirms. Use it when the user is happy with any of several places (e.g. "any Italian place near the office"). You get one update with the outcome at every business.',
+  parameters: {
+    type: 'object',
+    properties: {
+      ...bookingProperties,
+      candidates: {
+        type: 'array',
+        description: `The businesses to try, best first (2 to ${MAX_CAMPAIGN_CANDIDATES})`,
+        items: {
+          type: 'object',
+          properties: {
+            businessName: {
+              type: 'string',
+              description: 'The name of the restaurant, hotel, or taxi company',
+            },
+            phoneNumber: {
+              type: 'string',
+              description: 'Phone number as the user gave it or as listed for the business',
+            },
+            businessTimeZone: {
+              type: 'string',
+              description: 'IANA time zone of this business, if different from businessTimeZone (optional)',
+            },
+          },
+          required: ['businessName', 'phoneNumber'],
+        },
+      },
+      parallelism: {
+        type: 'integer',
+        description: `How many businesses to call at the same time, 1 to ${MAX_CAMPAIGN_PARALLELISM}. Use 1 (one after another) unless the user is in a hurry; calling several at once can end with more than one booking.`,
+        default: 1,
+      },
+    },
+    required: ['bookingType', 'candidates', 'customerName'],
+  },
+  status: (args) =>
+    `Setting up calls to ${args.candidates?.[0]?.businessName || 'the first place'}${args.candidates?.length > 1 ? ` and ${args.candidates.length - 1} more` : ''}…`,
+  handler: handleStartBookingCampaign,
+};
+
+/**
+ * Handle start_booking_campaign tool
+ */
+async function handleStartBookingCampaign(
+  args: StartBookingCampaignArgs,
+  { chatId, userId, toolCallId }: ToolContext
+): Promise<any> {
+  const {
+    bookingType = 'restaurant',
+    candidates,
+    parallelism,
+    businessTimeZone,
+    callNotBefore,
+    callNotAfter,
+    callAt,
+    ...details
+  } = args;
+
+  // The per-type fields are checked by the booking service
+  const request = {
+    ...details,
+    chatId,
+    userId,
+    bookingType,
+    candidates: candidates.map(({ businessName, phoneNumber, businessTimeZone: timeZone }) => ({
+      businessName,
+      phoneNumber,
+      timeZone,
+    })),
+    parallelism,
+    callWindow: {
+      timeZone: businessTimeZone,
+      notBefore: callNotBefore,
+      notAfter: callNotAfter,
+    },
+    callAt,
+  } as StartCampaignRequest;
+
+  try {
+    // Keyed on the tool call, so a retried run doesn't start the campaign twice
+    const result = await startBookingCampaign(request, {
+      idempotencyKey: toolCallId ? `tool-call:${toolCallId}` : undefined,
+      requireApproval: true,
+    });
+
+    if (result.status === 'awaiting_approval') {
+      return {
+        success: true,
+        status: 'awaiting_approval',
+        campaignId: result.campaignId,
+        message: `Nothing has been called yet: the user is shown the places and details to approve, edit or cancel. Tell them to check and approve the calls; don't start the campaign again. You'll get one update when a business confirms or none can.`,
+      };
+    }
+
+    const calls = (result.calls || []).map((call) =>
+      call.status === 'scheduled' ? `${call.businessName} (scheduled for ${call.scheduledForLocal})` : call.businessName
+    );
+    return {
+      success: true,
+      campaignId: result.campaignId,
+      calls: result.calls,
+      remaining: result.remaining,
+      message: `Started with ${calls.join(' and ')}; ${result.remaining} more to try if needed. You'll get one update when a business confirms or none can.`,
+    };
+  } catch (error) {
+    // E.g. every business outside its calling hours: let the assistant sort it out with the user
+    if (error instanceof BookingRequestError && error.status < 500) {
+      return error.toJSON();
+    }
+    throw error;
+  }
+}
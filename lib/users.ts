@@ -0,0 +1,26 @@
+import { getServerSupabase } from '@/lib/supabase';
+import { User } from '@/types';
+
+/**
+ * Time zone, locale, phone region and call approval preferences from a user's profile
+ *
+ * @param userId - The user to look up
+ * @returns The preferences, or null if the user isn't found
+ */
+export async function getUserPreferences(
+  userId: string
+): Promise<Pick<User, 'time_zone' | 'locale' | 'region' | 'call_approval'> | null> {
+  const supabase = getServerSupabase();
+  const { data, error } = await supabase
+    .from('users')
+    .select('time_zone, locale, region, call_approval')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching user preferences:', error);
+    return null;
+  }
+
+  return data;
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import crypto from 'crypto';
+
+/**
+ * Read a webhook from the MCP server, checking its signature
+ *
+ * The body is signed with HMAC-SHA256 of `WEBHOOK_SECRET`, hex-encoded in
+ * the `x-webhook-signature` header. Unsigned requests are accepted as before.
+ *
+ * @param request - The incoming webhook
+ * @returns The parsed body, or null if the signature doesn't match
+ */
+export async function readWebhookBody<T>(request: NextRequest): Promise<T | null> {
+  const signature = request.headers.get('x-webhook-signature');
+  const webhookSecret = process.env.WEBHOOK_SECRET;
+  const body = await request.text();
+
+  if (webhookSecret && signature) {
+    const expectedSignature = crypto
+      .createHmac('sha256', webhookSecret)
+      .update(body)
+      .digest('hex');
+
+    if (signature !== expectedSignature) {
+      console.error('Invalid webhook signature');
+      return null;
+    }
+  }
+
+  return JSON.parse(body) as T;
+}
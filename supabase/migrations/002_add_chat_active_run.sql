@@ -0,0 +1,21 @@
+-- Migration: Track the in-flight assistant run per chat
+-- Date: 2025-02-03
+-- Description: Adds active_run_id and active_run_started_at to chats so a run can be cancelled from the chat UI
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS active_run_id TEXT;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS active_run_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chats' AND column_name = 'active_run_id'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: active_run_id column added to chats table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: active_run_id column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
@@ -0,0 +1,26 @@
+-- Migration: Per-chat run lock and message queue
+-- Date: 2025-02-05
+-- Description: Adds a run lock to chats so only one request runs the assistant on a thread at a time,
+-- and an index for finding user messages still waiting for a reply (metadata->>'queue_status' = 'pending')
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS run_lock_id TEXT;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS run_lock_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_pending
+  ON messages(chat_id, created_at)
+  WHERE metadata->>'queue_status' = 'pending';
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chats' AND column_name = 'run_lock_id'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: run_lock_id column added to chats table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: run_lock_id column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
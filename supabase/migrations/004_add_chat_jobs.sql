@@ -0,0 +1,48 @@
+-- Migration: Background chat job queue
+-- Date: 2025-02-08
+-- Description: Adds the chat_jobs table. /api/chat/send saves the user message, enqueues a job
+-- and returns immediately; a worker answers jobs in order per chat, retrying failures with backoff
+
+CREATE TABLE IF NOT EXISTS chat_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_jobs_chat_id_created_at ON chat_jobs(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_jobs_due
+  ON chat_jobs(run_after)
+  WHERE status = 'queued';
+
+-- Only the service role (API routes) touches the queue
+ALTER TABLE chat_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_chat_jobs_updated_at ON chat_jobs;
+CREATE TRIGGER update_chat_jobs_updated_at
+  BEFORE UPDATE ON chat_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'chat_jobs'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: chat_jobs table created';
+  ELSE
+    RAISE EXCEPTION 'FAILED: chat_jobs table not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
@@ -0,0 +1,56 @@
+-- Migration: Booking lifecycle statuses and history
+-- Date: 2025-02-12
+-- Description: Expands the booking status model (busy, no_answer, voicemail, retry_scheduled,
+-- awaiting_user, cancelled) and adds booking_events, a history of every status change
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check CHECK (status IN (
+  'initiated', 'calling', 'completed', 'failed', 'busy', 'no_answer',
+  'voicemail', 'retry_scheduled', 'awaiting_user', 'cancelled'
+));
+
+-- Calls stopped from the chat used to be recorded as failed
+UPDATE bookings
+SET status = 'cancelled'
+WHERE status = 'failed' AND result->>'reason' = 'Cancelled by user';
+
+CREATE TABLE IF NOT EXISTS booking_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  cause TEXT NOT NULL,
+  details JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking_id_created_at
+  ON booking_events(booking_id, created_at);
+
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view events of their own bookings" ON booking_events;
+CREATE POLICY "Users can view events of their own bookings"
+  ON booking_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_events.booking_id
+      AND bookings.user_id = auth.uid()
+    )
+  );
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'booking_events'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: booking_events table created';
+  ELSE
+    RAISE EXCEPTION 'FAILED: booking_events table not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
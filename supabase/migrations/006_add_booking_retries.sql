@@ -0,0 +1,65 @@
+-- Migration: Automatic booking call retries
+-- Date: 2025-02-14
+-- Description: Adds per-booking retry policies and attempt tracking. Busy and unanswered calls are
+-- retried automatically; every call placed for a booking is recorded in booking_attempts
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS retry_policy JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_next_attempt_at
+  ON bookings(next_attempt_at)
+  WHERE status = 'retry_scheduled';
+
+CREATE TABLE IF NOT EXISTS booking_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  call_id TEXT UNIQUE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'calling' CHECK (status IN ('calling', 'completed', 'failed', 'busy', 'no_answer', 'voicemail')),
+  reason TEXT,
+  result JSONB DEFAULT '{}'::jsonb,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_attempts_booking_id ON booking_attempts(booking_id);
+
+-- Existing calls become each booking's first attempt
+INSERT INTO booking_attempts (booking_id, attempt_number, call_id, status, started_at)
+SELECT id, 1, call_id,
+  CASE WHEN status IN ('calling', 'completed', 'busy', 'no_answer', 'voicemail') THEN status ELSE 'failed' END,
+  created_at
+FROM bookings
+WHERE call_id IS NOT NULL
+ON CONFLICT (call_id) DO NOTHING;
+
+UPDATE bookings SET attempt_count = 1 WHERE call_id IS NOT NULL AND attempt_count = 0;
+
+ALTER TABLE booking_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view attempts of their own bookings" ON booking_attempts;
+CREATE POLICY "Users can view attempts of their own bookings"
+  ON booking_attempts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_attempts.booking_id
+      AND bookings.user_id = auth.uid()
+    )
+  );
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'booking_attempts'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: booking_attempts table created';
+  ELSE
+    RAISE EXCEPTION 'FAILED: booking_attempts table not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
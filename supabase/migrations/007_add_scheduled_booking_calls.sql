@@ -0,0 +1,33 @@
+-- Migration: Scheduled booking calls and calling hours
+-- Date: 2025-02-17
+-- Description: Lets a booking's first call be scheduled for later (status 'scheduled') and stores the
+-- business's time zone and calling hours, which scheduled calls and retries stay within
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS call_window JSONB;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check CHECK (status IN (
+  'initiated', 'scheduled', 'calling', 'completed', 'failed', 'busy', 'no_answer',
+  'voicemail', 'retry_scheduled', 'awaiting_user', 'cancelled'
+));
+
+-- The dispatcher now picks up scheduled first calls as well as retries
+DROP INDEX IF EXISTS idx_bookings_next_attempt_at;
+CREATE INDEX idx_bookings_next_attempt_at
+  ON bookings(next_attempt_at)
+  WHERE status IN ('scheduled', 'retry_scheduled');
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'call_window'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: call_window column added to bookings table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: call_window column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
@@ -0,0 +1,26 @@
+-- Migration: Type-specific booking details
+-- Date: 2025-02-19
+-- Description: Booking details are now shaped per booking type (restaurant, hotel, taxi) and carry a
+-- bookingType field. Backfills it, and businessName, on existing bookings
+
+UPDATE bookings
+SET details = details || jsonb_build_object('bookingType', booking_type)
+WHERE NOT details ? 'bookingType';
+
+UPDATE bookings
+SET details = details || jsonb_build_object('businessName', details->>'restaurantName')
+WHERE NOT details ? 'businessName' AND details ? 'restaurantName';
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM bookings WHERE NOT details ? 'bookingType'
+  ) THEN
+    RAISE EXCEPTION 'FAILED: bookings without details.bookingType remain';
+  ELSE
+    RAISE NOTICE 'SUCCESS: details.bookingType set on all bookings';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
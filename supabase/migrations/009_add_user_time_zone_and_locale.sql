@@ -0,0 +1,22 @@
+-- Migration: User time zone and locale
+-- Date: 2025-02-21
+-- Description: Booking times are stored as ISO 8601 with an explicit time zone. The user's time zone is
+-- used when the business's isn't known, and their locale to format times in booking messages
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS time_zone TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale TEXT;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'time_zone'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: time_zone column added to users table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: time_zone column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
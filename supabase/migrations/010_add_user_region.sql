@@ -0,0 +1,25 @@
+-- Migration: User phone region
+-- Date: 2025-02-23
+-- Description: Booking phone numbers can be given in national format; the user's region (ISO 3166-1
+-- alpha-2, e.g. 'GB') is used as the default country. Backfilled from the locale where it has one
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS region TEXT;
+
+UPDATE users
+SET region = UPPER(SUBSTRING(locale FROM '[-_]([A-Za-z]{2})(?:[-_]|$)'))
+WHERE region IS NULL AND locale IS NOT NULL;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'region'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: region column added to users table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: region column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
@@ -0,0 +1,34 @@
+-- Migration: Idempotent booking requests
+-- Date: 2025-02-24
+-- Description: Adds the booking_requests table. /api/booking/start records each idempotency key
+-- (per user) with the response it returned, so a retried tool call gets the same booking back
+
+CREATE TABLE IF NOT EXISTS booking_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  response_status INTEGER,
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, idempotency_key)
+);
+
+-- Only the service role (API routes) reads and writes keys
+ALTER TABLE booking_requests ENABLE ROW LEVEL SECURITY;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'booking_requests'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: booking_requests table created';
+  ELSE
+    RAISE EXCEPTION 'FAILED: booking_requests table not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
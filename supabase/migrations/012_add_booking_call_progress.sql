@@ -0,0 +1,25 @@
+-- Migration: Live call progress
+-- Date: 2025-02-26
+-- Description: Adds bookings.progress, where the call in progress has got to (ringing, on hold, ...),
+-- as reported to /api/booking/progress. Each booking's progress message is found by metadata.progressFor
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS progress JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_messages_progress_for
+  ON messages((metadata->>'progressFor'))
+  WHERE metadata ? 'progressFor';
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'progress'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: progress column added to bookings table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: progress column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
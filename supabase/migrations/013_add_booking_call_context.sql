@@ -0,0 +1,21 @@
+-- Migration: Booking call context
+-- Date: 2025-02-27
+-- Description: Adds bookings.call_context, why the booking's next call is made when it isn't a plain
+-- new booking (e.g. confirming an alternative time the business offered), passed to the MCP server
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS call_context JSONB;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'call_context'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: call_context column added to bookings table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: call_context column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
@@ -0,0 +1,51 @@
+-- Migration: Booking campaigns
+-- Date: 2025-02-28
+-- Description: Adds the booking_campaigns table and links bookings to it. A campaign tries one
+-- booking at several businesses in order (a few at a time at most) until one confirms
+
+CREATE TABLE IF NOT EXISTS booking_campaigns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  booking_type TEXT NOT NULL CHECK (booking_type IN ('restaurant', 'hotel', 'taxi')),
+  request JSONB NOT NULL DEFAULT '{}'::jsonb,
+  candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  parallelism INTEGER NOT NULL DEFAULT 1,
+  next_candidate INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'confirmed', 'exhausted', 'cancelled')),
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES booking_campaigns(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS campaign_rank INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_campaign_id ON bookings(campaign_id) WHERE campaign_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_booking_campaigns_updated_at ON booking_campaigns;
+CREATE TRIGGER update_booking_campaigns_updated_at
+  BEFORE UPDATE ON booking_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role (API routes) reads and writes campaigns
+ALTER TABLE booking_campaigns ENABLE ROW LEVEL SECURITY;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_name = 'booking_campaigns'
+  ) AND EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'campaign_id'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: booking_campaigns table created and linked to bookings';
+  ELSE
+    RAISE EXCEPTION 'FAILED: booking_campaigns table or bookings.campaign_id not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
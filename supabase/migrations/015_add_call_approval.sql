@@ -0,0 +1,37 @@
+-- Migration: Call approval
+-- Date: 2025-03-02
+-- Description: Calls the assistant starts wait in awaiting_approval until the user approves them
+-- in the chat. Adds the status to bookings and campaigns, and users.call_approval for users who
+-- want some or all calls to go ahead without asking
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check CHECK (status IN (
+  'initiated', 'awaiting_approval', 'scheduled', 'calling', 'completed', 'failed', 'busy', 'no_answer',
+  'voicemail', 'retry_scheduled', 'awaiting_user', 'cancelled'
+));
+
+ALTER TABLE booking_campaigns DROP CONSTRAINT IF EXISTS booking_campaigns_status_check;
+ALTER TABLE booking_campaigns ADD CONSTRAINT booking_campaigns_status_check CHECK (status IN (
+  'awaiting_approval', 'running', 'confirmed', 'exhausted', 'cancelled'
+));
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS call_approval TEXT NOT NULL DEFAULT 'ask';
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_call_approval_check;
+ALTER TABLE users ADD CONSTRAINT users_call_approval_check CHECK (call_approval IN ('ask', 'known_businesses', 'auto'));
+
+CREATE INDEX IF NOT EXISTS idx_messages_approval_for ON messages((metadata->>'approvalFor')) WHERE metadata ? 'approvalFor';
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'call_approval'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: call_approval column added to users table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: call_approval column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
@@ -0,0 +1,31 @@
+-- Migration: Booking follow-up calls
+-- Date: 2025-03-04
+-- Description: Calls back a business to cancel or change a booking it confirmed. Each follow-up
+-- call is a booking of its own, linked to the original, whose outcome is applied to the original
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS follow_up_of UUID;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS follow_up_action TEXT;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_follow_up_of_fkey;
+ALTER TABLE bookings ADD CONSTRAINT bookings_follow_up_of_fkey
+  FOREIGN KEY (follow_up_of) REFERENCES bookings(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_follow_up_action_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_follow_up_action_check CHECK (follow_up_action IN ('cancel', 'modify'));
+
+CREATE INDEX IF NOT EXISTS idx_bookings_follow_up_of ON bookings(follow_up_of) WHERE follow_up_of IS NOT NULL;
+
+-- Verify the changes
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bookings' AND column_name = 'follow_up_of'
+  ) THEN
+    RAISE NOTICE 'SUCCESS: follow_up_of column added to bookings table';
+  ELSE
+    RAISE EXCEPTION 'FAILED: follow_up_of column not found';
+  END IF;
+
+  RAISE NOTICE 'Migration completed successfully!';
+END $$;
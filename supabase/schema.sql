@@ -7,6 +7,10 @@ CREATE TABLE IF NOT EXISTS users (
   email TEXT UNIQUE NOT NULL,
   phone TEXT,
   name TEXT,
+  time_zone TEXT,
+  locale TEXT,
+  region TEXT,
+  call_approval TEXT NOT NULL DEFAULT 'ask' CHECK (call_approval IN ('ask', 'known_businesses', 'auto')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -16,6 +20,10 @@ CREATE TABLE IF NOT EXISTS chats (
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   title TEXT,
   openai_thread_id TEXT UNIQUE,
+  active_run_id TEXT,
+  active_run_started_at TIMESTAMP WITH TIME ZONE,
+  run_lock_id TEXT,
+  run_lock_expires_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -37,9 +45,95 @@ CREATE TABLE IF NOT EXISTS bookings (
   chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
   call_id TEXT UNIQUE,
   booking_type TEXT NOT NULL CHECK (booking_type IN ('restaurant', 'hotel', 'taxi')),
-  status TEXT NOT NULL DEFAULT 'initiated' CHECK (status IN ('initiated', 'calling', 'completed', 'failed')),
+  status TEXT NOT NULL DEFAULT 'initiated' CONSTRAINT bookings_status_check CHECK (status IN (
+    'initiated', 'awaiting_approval', 'scheduled', 'calling', 'completed', 'failed', 'busy', 'no_answer',
+    'voicemail', 'retry_scheduled', 'awaiting_user', 'cancelled'
+  )),
   details JSONB DEFAULT '{}'::jsonb,
   result JSONB DEFAULT '{}'::jsonb,
+  retry_policy JSONB DEFAULT '{}'::jsonb,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  call_window JSONB,
+  progress JSONB,
+  call_context JSONB,
+  campaign_id UUID,
+  campaign_rank INTEGER,
+  follow_up_of UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  follow_up_action TEXT CONSTRAINT bookings_follow_up_action_check CHECK (follow_up_action IN ('cancel', 'modify')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Booking attempts table (every call placed for a booking)
+CREATE TABLE IF NOT EXISTS booking_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  call_id TEXT UNIQUE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'calling' CHECK (status IN ('calling', 'completed', 'failed', 'busy', 'no_answer', 'voicemail')),
+  reason TEXT,
+  result JSONB DEFAULT '{}'::jsonb,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Booking events table (history of booking status changes)
+CREATE TABLE IF NOT EXISTS booking_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  cause TEXT NOT NULL,
+  details JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Booking requests table (idempotency keys for /api/booking/start and the responses they got)
+CREATE TABLE IF NOT EXISTS booking_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  response_status INTEGER,
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, idempotency_key)
+);
+
+-- Booking campaigns table (one booking tried at several businesses until one confirms)
+CREATE TABLE IF NOT EXISTS booking_campaigns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  booking_type TEXT NOT NULL CHECK (booking_type IN ('restaurant', 'hotel', 'taxi')),
+  request JSONB NOT NULL DEFAULT '{}'::jsonb,
+  candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  parallelism INTEGER NOT NULL DEFAULT 1,
+  next_candidate INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('awaiting_approval', 'running', 'confirmed', 'exhausted', 'cancelled')),
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_campaign_id_fkey;
+ALTER TABLE bookings ADD CONSTRAINT bookings_campaign_id_fkey
+  FOREIGN KEY (campaign_id) REFERENCES booking_campaigns(id) ON DELETE SET NULL;
+
+-- Chat jobs table (user messages waiting for an assistant reply)
+CREATE TABLE IF NOT EXISTS chat_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -50,15 +144,30 @@ CREATE INDEX IF NOT EXISTS idx_chats_thread_id ON chats(openai_thread_id);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id_created_at ON messages(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_approval_for ON messages((metadata->>'approvalFor')) WHERE metadata ? 'approvalFor';
+CREATE INDEX IF NOT EXISTS idx_messages_progress_for ON messages((metadata->>'progressFor')) WHERE metadata ? 'progressFor';
+CREATE INDEX IF NOT EXISTS idx_messages_pending ON messages(chat_id, created_at) WHERE metadata->>'queue_status' = 'pending';
 CREATE INDEX IF NOT EXISTS idx_bookings_user_id ON bookings(user_id);
 CREATE INDEX IF NOT EXISTS idx_bookings_chat_id ON bookings(chat_id);
 CREATE INDEX IF NOT EXISTS idx_bookings_call_id ON bookings(call_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_campaign_id ON bookings(campaign_id) WHERE campaign_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_follow_up_of ON bookings(follow_up_of) WHERE follow_up_of IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_next_attempt_at ON bookings(next_attempt_at) WHERE status IN ('scheduled', 'retry_scheduled');
+CREATE INDEX IF NOT EXISTS idx_booking_attempts_booking_id ON booking_attempts(booking_id);
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking_id_created_at ON booking_events(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_jobs_chat_id_created_at ON chat_jobs(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_jobs_due ON chat_jobs(run_after) WHERE status = 'queued';
 
 -- Enable Row Level Security
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_requests ENABLE ROW LEVEL SECURITY; -- service role only, no policies
+ALTER TABLE booking_campaigns ENABLE ROW LEVEL SECURITY; -- service role only, no policies
+ALTER TABLE chat_jobs ENABLE ROW LEVEL SECURITY; -- service role only, no policies
 
 -- RLS Policies for users table
 CREATE POLICY "Users can view their own data"
@@ -120,6 +229,28 @@ CREATE POLICY "Users can update their own bookings"
   ON bookings FOR UPDATE
   USING (auth.uid() = user_id);
 
+-- RLS Policies for booking_attempts table
+CREATE POLICY "Users can view attempts of their own bookings"
+  ON booking_attempts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_attempts.booking_id
+      AND bookings.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policies for booking_events table
+CREATE POLICY "Users can view events of their own bookings"
+  ON booking_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings
+      WHERE bookings.id = booking_events.booking_id
+      AND bookings.user_id = auth.uid()
+    )
+  );
+
 -- Enable real-time for messages table
 ALTER PUBLICATION supabase_realtime ADD TABLE messages;
 
@@ -142,3 +273,13 @@ CREATE TRIGGER update_bookings_updated_at
   BEFORE UPDATE ON bookings
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_chat_jobs_updated_at
+  BEFORE UPDATE ON chat_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_booking_campaigns_updated_at
+  BEFORE UPDATE ON booking_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
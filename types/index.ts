@@ -3,14 +3,29 @@ export interface User {
   email: string;
   phone?: string;
   name?: string;
+  /** IANA time zone, used for booking times when the business's isn't known */
+  time_zone?: string | null;
+  /** BCP 47 locale for dates and times in booking messages, e.g. 'en-GB' */
+  locale?: string | null;
+  /** ISO 3166-1 alpha-2 region for phone numbers given without a country code, e.g. 'GB' */
+  region?: string | null;
+  /** When calls the assistant starts need the user's approval first; defaults to 'ask' */
+  call_approval?: CallApprovalSetting | null;
   created_at: string;
 }
 
+export type CallApprovalSetting =
+  | 'ask' // Every call waits for the user to approve it
+  | 'known_businesses' // Calls to businesses the user has booked before go ahead straight away
+  | 'auto'; // Calls go ahead straight away
+
 export interface Chat {
   id: string;
   user_id: string;
   title?: string;
   openai_thread_id?: string;
+  active_run_id?: string | null;
+  active_run_started_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -31,29 +46,176 @@ export interface Message {
 }
 
 export type BookingType = 'restaurant' | 'hotel' | 'taxi';
-export type BookingStatus = 'initiated' | 'calling' | 'completed' | 'failed';
+export type BookingStatus =
+  | 'initiated' // Booking created, call not placed yet
+  | 'awaiting_approval' // Waiting for the user to approve the call
+  | 'scheduled' // First call is scheduled for later (e.g. when the business opens)
+  | 'calling' // Call in progress
+  | 'completed' // Booking confirmed
+  | 'failed' // Booking couldn't be made
+  | 'busy' // Line was busy
+  | 'no_answer' // Nobody picked up
+  | 'voicemail' // Call went to voicemail
+  | 'retry_scheduled' // Another call attempt is scheduled
+  | 'awaiting_user' // Waiting for the user to decide what to do next
+  | 'cancelled'; // Cancelled by the user
 
-export interface BookingDetails {
-  restaurantName?: string;
-  businessName?: string;
-  phone?: string;
-  dateTime?: string;
-  partySize?: number;
-  customerName?: string;
+export type PhoneNumberType = 'mobile' | 'landline' | 'unknown';
+
+// Why a booking's next call is being made, passed to the MCP server with the call
+export interface CallContext {
+  purpose: 'confirm_alternative' | 'cancel_booking' | 'modify_booking';
+  /** Instructions for the calling agent, e.g. which offered slot to confirm */
+  note: string;
+}
+
+// What a follow-up call asks the business to do with a booking it confirmed
+export type FollowUpAction = 'cancel' | 'modify';
+
+// Where a call in progress has got to, as reported by the telephony side
+export type CallProgressStage =
+  | 'dialing' // Call placed, not ringing yet
+  | 'ringing'
+  | 'answered'
+  | 'on_hold'
+  | 'speaking_with_staff'
+  | 'transferred'
+  | 'ended'; // Final outcome received (or the call was cancelled)
+
+export interface CallProgress {
+  stage: CallProgressStage;
+  /** E.g. who the call was transferred to */
+  detail?: string;
+  attemptNumber?: number;
+  updatedAt: string;
+}
+
+// Fields every booking has, whatever is being booked
+interface BookingDetailsBase {
+  businessName: string;
+  /** E.164, e.g. '+12125551234' */
+  phoneNumber: string;
+  /** The number as the user gave it, e.g. '(212) 555-1234' */
+  phoneNumberRaw?: string;
+  phoneNumberType?: PhoneNumberType;
+  customerName: string;
   specialRequests?: string;
-  address?: string;
-  [key: string]: any;
+  /** IANA time zone the booking's times are in (the business's, or the user's) */
+  timeZone?: string;
 }
 
-export interface BookingResult {
+export interface RestaurantBookingDetails extends BookingDetailsBase {
+  bookingType: 'restaurant';
+  /** Reservation time, ISO 8601 with the time zone's offset */
+  dateTime: string;
+  partySize: number;
+  /** Same as businessName; kept for bookings made before other types were supported */
+  restaurantName?: string;
+}
+
+export interface HotelBookingDetails extends BookingDetailsBase {
+  bookingType: 'hotel';
+  /** 'YYYY-MM-DD', or ISO 8601 with an offset when the arrival time is known */
+  checkIn: string;
+  /** 'YYYY-MM-DD' */
+  checkOut: string;
+  guests: number;
+  roomType?: string;
+}
+
+export interface TaxiBookingDetails extends BookingDetailsBase {
+  bookingType: 'taxi';
+  /** Pickup time, ISO 8601 with the time zone's offset */
+  dateTime: string;
+  pickup: string;
+  dropoff: string;
+  passengers: number;
+  /** Number of bags */
+  luggage?: number;
+}
+
+// What is being booked, by booking type (`bookingType` matches `bookings.booking_type`)
+export type BookingDetails = RestaurantBookingDetails | HotelBookingDetails | TaxiBookingDetails;
+
+// What the business actually agreed to, extracted from the call after it ends
+export interface BookingOutcomeFacts {
+  /** Whether the business took the booking; null if the call doesn't make it clear */
+  confirmed: boolean | null;
+  confirmationNumber?: string;
+  /** The time actually booked (check-in date for hotels), ISO 8601 in the booking's time zone */
+  bookedDateTime?: string;
+  /** The name the booking is under */
+  bookedUnderName?: string;
+  /** Other times the business offered, ISO 8601 in the booking's time zone */
+  alternativeTimes?: string[];
+  deposit?: string;
+  cancellationPolicy?: string;
+  /** One or two sentences on how the call went */
+  summary?: string;
+}
+
+export interface BookingResult extends Partial<BookingOutcomeFacts> {
   transcript?: string;
   confirmation?: string;
   duration?: number;
   status?: string;
   reason?: string;
+  /** Where the outcome facts came from */
+  analysis?: {
+    source: 'transcript' | 'callback';
+    model?: string;
+    analyzedAt: string;
+    error?: string;
+  };
   [key: string]: any;
 }
 
+// When and how often a busy/unanswered call is retried automatically
+export interface RetryPolicy {
+  /** Total call attempts, the first call included (1 = never retry) */
+  maxAttempts: number;
+  /** Wait before the first retry */
+  initialDelayMinutes: number;
+  /** Each further retry waits this many times longer */
+  backoffMultiplier: number;
+  /** Stop retrying this long before the booking's dateTime */
+  giveUpMinutesBefore: number;
+}
+
+// Local hours during which a business may be called
+export interface CallWindow {
+  /** IANA time zone of the business, e.g. 'Europe/London' */
+  timeZone: string;
+  /** Earliest local call time, 'HH:MM' */
+  notBefore?: string;
+  /** Latest local call time, 'HH:MM' (may be earlier than notBefore to wrap past midnight) */
+  notAfter?: string;
+}
+
+// One call placed for a booking (booking_attempts table)
+export interface BookingAttempt {
+  id: string;
+  booking_id: string;
+  attempt_number: number;
+  call_id: string;
+  status: 'calling' | 'completed' | 'failed' | 'busy' | 'no_answer' | 'voicemail';
+  reason?: string | null;
+  result?: BookingResult;
+  started_at: string;
+  ended_at?: string | null;
+}
+
+// One status change in a booking's history (booking_events table)
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  from_status: BookingStatus | null;
+  to_status: BookingStatus;
+  cause: string;
+  details?: Record<string, any>;
+  created_at: string;
+}
+
 export interface Booking {
   id: string;
   user_id: string;
@@ -63,10 +225,64 @@ export interface Booking {
   status: BookingStatus;
   details: BookingDetails;
   result?: BookingResult;
+  retry_policy?: RetryPolicy;
+  call_window?: CallWindow | null;
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  progress?: CallProgress | null;
+  call_context?: CallContext | null;
+  /** The campaign this booking was made for, and the business's place in its list */
+  campaign_id?: string | null;
+  campaign_rank?: number | null;
+  /** For a follow-up call, the booking it cancels or changes */
+  follow_up_of?: string | null;
+  follow_up_action?: FollowUpAction | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A business to try in a booking campaign
+export interface CampaignCandidate {
+  businessName: string;
+  phoneNumber: string;
+  /** IANA time zone of this business, if it isn't the campaign's */
+  timeZone?: string;
+}
+
+export type BookingCampaignStatus =
+  | 'awaiting_approval' // Waiting for the user to approve the calls
+  | 'running' // Calling businesses in turn
+  | 'confirmed' // One of them took the booking
+  | 'exhausted' // None of them could
+  | 'cancelled'; // The user stopped it
+
+// One booking tried at several businesses in order, until one confirms
+export interface BookingCampaign {
+  id: string;
+  user_id: string;
+  chat_id: string;
+  booking_type: BookingType;
+  /** What to book; each candidate's name and phone number are filled in per call */
+  request: CampaignBookingTemplate;
+  candidates: CampaignCandidate[];
+  /** How many businesses may be called at once */
+  parallelism: number;
+  /** Index of the next candidate to call */
+  next_candidate: number;
+  status: BookingCampaignStatus;
+  /** The booking that was confirmed */
+  booking_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Booking request fields without the business, which comes from each candidate
+type WithoutBusiness<T> = T extends unknown
+  ? Omit<T, 'businessName' | 'phoneNumber' | 'restaurantName' | 'retryPolicy' | 'allowDuplicate' | 'idempotencyKey'>
+  : never;
+
+export type CampaignBookingTemplate = WithoutBusiness<StartBookingRequest>;
+
 // API Request/Response types
 export interface SendMessageRequest {
   chatId: string;
@@ -76,38 +292,219 @@ export interface SendMessageRequest {
 
 export interface SendMessageResponse {
   success: boolean;
+  // The reply is generated in the background and delivered over realtime
+  status?: 'queued';
+  jobId?: string;
+  position?: number;
   message?: Message;
   error?: string;
 }
 
-export interface StartBookingRequest {
+export type ChatJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// A message waiting for an assistant reply (a user message or a booking update)
+export interface ChatJob {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  message_id: string;
+  status: ChatJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_until?: string | null;
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Realtime broadcast events published by the chat worker while the assistant runs
+export type ChatStreamEvent =
+  | { type: 'start'; messageId: string }
+  | { type: 'delta'; text: string }
+  | { type: 'status'; status: string; tool?: string }
+  | { type: 'done'; message: Message }
+  | { type: 'cancelled' }
+  | { type: 'error'; error: string };
+
+export interface CancelRunRequest {
   chatId: string;
   userId: string;
-  bookingType: BookingType;
-  restaurantName: string;
-  phone: string;
-  dateTime: string;
-  partySize: number;
-  customerName: string;
-  specialRequests?: string;
+  // Booking calls to stop as well; omitted means calls are left running
+  bookingIds?: string[];
 }
 
+export interface CancelRunResponse {
+  success: boolean;
+  cancelledRunId?: string | null;
+  // Calls still in progress in this chat, so the user can choose to stop them
+  activeBookings?: Array<{ id: string; businessName: string }>;
+  cancelledBookingIds?: string[];
+  error?: string;
+}
+
+export type StartBookingRequest = BookingDetails & {
+  chatId: string;
+  userId: string;
+  // Overrides for the booking type's default retry policy
+  retryPolicy?: Partial<RetryPolicy>;
+  // Business time zone and local calling hours; hours default per booking type
+  callWindow?: Partial<CallWindow>;
+  // Don't call before this time: ISO 8601, or 'YYYY-MM-DD HH:MM' in the business's time zone
+  callAt?: string;
+  // Same as the Idempotency-Key header: repeats of a request with this key return the first response
+  idempotencyKey?: string;
+  // Book even if a similar booking (same business, about the same time) is already active
+  allowDuplicate?: boolean;
+  // Call without the user's approval; only honoured with the admin API key
+  skipApproval?: boolean;
+};
+
 export interface StartBookingResponse {
   success: boolean;
+  status?: 'scheduled' | 'awaiting_approval';
   callId?: string;
   bookingId?: string;
+  scheduledFor?: string;
+  scheduledForLocal?: string;
+  /** When the booking is for, in the booking's time zone */
+  bookingTime?: string;
+  /** The response was stored from an earlier request with the same idempotency key */
+  replayed?: boolean;
+  /** The active booking this one would duplicate (with error 'Duplicate booking') */
+  duplicateBookingId?: string;
   error?: string;
 }
 
 export interface BookingCallbackRequest {
   callId: string;
-  status: 'completed' | 'failed' | 'busy' | 'no-answer';
+  status: 'completed' | 'failed' | 'busy' | 'no-answer' | 'voicemail';
   result?: any;
   transcript?: string;
   duration?: number;
   reason?: string;
 }
 
+// Intermediate event for a call still in progress, posted to /api/booking/progress
+export interface BookingProgressRequest {
+  callId: string;
+  event: 'ringing' | 'answered' | 'on-hold' | 'speaking-with-staff' | 'transferred';
+  detail?: string;
+  // When it happened (ISO 8601); events older than the booking's latest progress are ignored
+  timestamp?: string;
+}
+
+export type StartCampaignRequest = CampaignBookingTemplate & {
+  // Businesses to try, best first
+  candidates: CampaignCandidate[];
+  // How many to call at once (1 = one after another)
+  parallelism?: number;
+  // Same as the Idempotency-Key header
+  idempotencyKey?: string;
+  // Call without the user's approval; only honoured with the admin API key
+  skipApproval?: boolean;
+};
+
+export interface StartCampaignResponse {
+  success: boolean;
+  status?: 'awaiting_approval';
+  campaignId?: string;
+  /** The calls started (or scheduled) so far */
+  calls?: Array<{ businessName: string } & Omit<StartBookingResponse, 'success'>>;
+  /** Businesses waiting their turn */
+  remaining?: number;
+  /** The response was stored from an earlier request with the same idempotency key */
+  replayed?: boolean;
+  error?: string;
+}
+
+// Booking fields the user can correct on the approval card before the call is placed
+export interface BookingEdits {
+  phoneNumber?: string;
+  customerName?: string;
+  dateTime?: string;
+  checkIn?: string;
+  checkOut?: string;
+  partySize?: number;
+  guests?: number;
+  roomType?: string | null;
+  passengers?: number;
+  pickup?: string;
+  dropoff?: string;
+  luggage?: number | null;
+  specialRequests?: string | null;
+}
+
+// The user's answer on a call approval card, for a booking or a campaign
+export interface CallApprovalRequest {
+  bookingId?: string;
+  campaignId?: string;
+  userId: string;
+  action: 'approve' | 'edit' | 'cancel';
+  // For 'edit'
+  changes?: BookingEdits;
+}
+
+export interface CallApprovalResponse {
+  success: boolean;
+  /** What the booking or campaign is now, e.g. 'calling', 'scheduled', 'awaiting_approval' or 'cancelled' */
+  status?: BookingStatus | BookingCampaignStatus;
+  callId?: string;
+  scheduledFor?: string;
+  scheduledForLocal?: string;
+  error?: string;
+}
+
+// What the approval card in the chat shows (stored in the card message's metadata)
+export interface CallApprovalCard {
+  kind: 'booking' | 'campaign';
+  status: 'pending' | 'approved' | 'cancelled';
+  /** The booking as it will be asked for; for a campaign, as asked of the first business */
+  details: BookingDetails;
+  /** For a campaign, the businesses it will try, best first */
+  candidates?: CampaignCandidate[];
+  /** For a follow-up call, whether it cancels or changes the booking */
+  followUp?: FollowUpAction;
+}
+
+// Cancel a confirmed booking by calling the business back
+export interface CancelBookingRequest {
+  bookingId: string;
+  chatId: string;
+  userId: string;
+  /** Passed on to the business, if the user gave one */
+  reason?: string;
+  idempotencyKey?: string;
+  /** Call without the user's approval; only honoured with the admin API key */
+  skipApproval?: boolean;
+}
+
+// Change a confirmed booking by calling the business back
+export interface ModifyBookingRequest {
+  bookingId: string;
+  chatId: string;
+  userId: string;
+  /** The new details; the business and its number stay the same */
+  changes: Omit<BookingEdits, 'phoneNumber'>;
+  idempotencyKey?: string;
+  /** Call without the user's approval; only honoured with the admin API key */
+  skipApproval?: boolean;
+}
+
+export interface FollowUpCallResponse extends Omit<StartBookingResponse, 'status'> {
+  /** `cancelled` when nothing had been booked yet, so the booking was cancelled without a call */
+  status?: StartBookingResponse['status'] | 'cancelled';
+  /** The booking being cancelled or changed; `bookingId` is the follow-up call's own booking */
+  originalBookingId?: string;
+}
+
+export interface AcceptAlternativeRequest {
+  bookingId: string;
+  userId: string;
+  // One of the booking's result.alternativeTimes (ISO 8601, or YYYY-MM-DD HH:MM in the booking's time zone)
+  dateTime: string;
+}
+
 export interface BookingCallbackResponse {
   success: boolean;
   error?: string;
@@ -123,11 +520,25 @@ export interface MCPToolCallRequest {
       phoneNumber: string;
       bookingType: string;
       customerName: string;
+      /** Guests (hotel) or passengers (taxi) for other booking types */
       partySize: number;
+      /** Check-in (hotel) or pickup time (taxi) for other booking types */
       dateTime: string;
       businessName: string;
       specialRequests?: string;
+      /** IANA time zone of the booking's times */
+      timeZone?: string;
       language?: string;
+      checkIn?: string;
+      checkOut?: string;
+      roomType?: string;
+      pickup?: string;
+      dropoff?: string;
+      luggage?: number;
+      /** Why this call is made when it isn't a plain new booking, e.g. 'confirm_alternative' */
+      purpose?: CallContext['purpose'];
+      /** Instructions for the calling agent that go with the purpose */
+      context?: string;
     };
   };
   id: number;